@@ -20,6 +20,9 @@ const createMapObject = (data, userId = null) => {
         isPublic: data.isPublic || false,
         nodes: data.nodes || [],
         connections: data.connections || [],
+        connectionRouting: data.connectionRouting || 'straight',
+        themeId: data.themeId || 'classic',
+        nodeWidth: data.nodeWidth || 'normal',
         createdAt: data.createdAt || now,
         updatedAt: now
     };
@@ -104,7 +107,7 @@ const getMapById = async (req, res) => {
 // @access  Public
 const createMap = async (req, res) => {
     try {
-        const { title, nodes, connections, isPublic } = req.body;
+        const { title, nodes, connections, connectionRouting, themeId, nodeWidth, isPublic } = req.body;
         const userId = req.user?._id;
 
         // Validation
@@ -123,7 +126,10 @@ const createMap = async (req, res) => {
                 user: userId || null,
                 isPublic: isPublic || false,
                 nodes: nodes || [],
-                connections: connections || []
+                connections: connections || [],
+                connectionRouting,
+                themeId,
+                nodeWidth
             });
 
             savedMap = await newMap.save();
@@ -133,7 +139,10 @@ const createMap = async (req, res) => {
                 title: title.trim(),
                 isPublic: isPublic || false,
                 nodes: nodes || [],
-                connections: connections || []
+                connections: connections || [],
+                connectionRouting,
+                themeId,
+                nodeWidth
             }, userId?.toString());
             inMemoryMaps.push(savedMap);
         }
@@ -157,7 +166,7 @@ const createMap = async (req, res) => {
 // @access  Private
 const updateMap = async (req, res) => {
     try {
-        const { title, nodes, connections } = req.body;
+        const { title, nodes, connections, connectionRouting, themeId, nodeWidth } = req.body;
         const userId = req.user?._id;
         let map;
         let updatedMap;
@@ -184,6 +193,9 @@ const updateMap = async (req, res) => {
             if (title !== undefined) map.title = title.trim();
             if (nodes !== undefined) map.nodes = nodes;
             if (connections !== undefined) map.connections = connections;
+            if (connectionRouting !== undefined) map.connectionRouting = connectionRouting;
+            if (themeId !== undefined) map.themeId = themeId;
+            if (nodeWidth !== undefined) map.nodeWidth = nodeWidth;
 
             updatedMap = await map.save();
         } else {
@@ -211,6 +223,9 @@ const updateMap = async (req, res) => {
             if (title !== undefined) inMemoryMaps[mapIndex].title = title.trim();
             if (nodes !== undefined) inMemoryMaps[mapIndex].nodes = nodes;
             if (connections !== undefined) inMemoryMaps[mapIndex].connections = connections;
+            if (connectionRouting !== undefined) inMemoryMaps[mapIndex].connectionRouting = connectionRouting;
+            if (themeId !== undefined) inMemoryMaps[mapIndex].themeId = themeId;
+            if (nodeWidth !== undefined) inMemoryMaps[mapIndex].nodeWidth = nodeWidth;
             inMemoryMaps[mapIndex].updatedAt = new Date().toISOString();
 
             updatedMap = inMemoryMaps[mapIndex];
@@ -22,9 +22,85 @@ const nodeSchema = new mongoose.Schema({
         type: String,
         default: null
     },
+    // Unset colors are inherited from the parent or the map theme
     color: {
+        type: String
+    },
+    width: {
+        type: Number
+    },
+    height: {
+        type: Number
+    },
+    pinned: {
+        type: Boolean,
+        default: false
+    },
+    collapsed: {
+        type: Boolean,
+        default: false
+    },
+    shape: {
+        type: String,
+        enum: ['rectangle', 'rounded', 'ellipse', 'pill', 'diamond', 'cloud', 'underline']
+    },
+    borderColor: {
+        type: String
+    },
+    borderWidth: {
+        type: Number,
+        min: 0
+    },
+    textColor: {
+        type: String
+    },
+    fontSize: {
+        type: Number,
+        min: 6
+    },
+    bold: {
+        type: Boolean
+    },
+    italic: {
+        type: Boolean
+    },
+    textAlign: {
+        type: String,
+        enum: ['left', 'center', 'right']
+    },
+    // Markdown note, hyperlink and emoji icon
+    note: {
+        type: String,
+        default: ''
+    },
+    link: {
         type: String,
-        default: '#ffffff'
+        default: ''
+    },
+    icon: {
+        type: String,
+        default: ''
+    },
+    // Compressed image as a data URL, with the size of its thumbnail
+    image: {
+        src: String,
+        width: Number,
+        height: Number
+    },
+    // Set on nodes used as tasks; dueDate is YYYY-MM-DD
+    task: {
+        done: Boolean,
+        priority: {
+            type: Number,
+            min: 1,
+            max: 5
+        },
+        dueDate: String,
+        assignee: String
+    },
+    tags: {
+        type: [String],
+        default: undefined
     }
 });
 
@@ -42,6 +118,25 @@ const connectionSchema = new mongoose.Schema({
         type: String,
         enum: ['parent-child', 'regular'],
         default: 'regular'
+    },
+    routing: {
+        type: String,
+        enum: ['straight', 'bezier', 'orthogonal']
+    },
+    label: {
+        type: String,
+        default: ''
+    },
+    color: {
+        type: String
+    },
+    lineStyle: {
+        type: String,
+        enum: ['solid', 'dashed', 'dotted']
+    },
+    direction: {
+        type: String,
+        enum: ['none', 'forward', 'both']
     }
 });
 
@@ -63,6 +158,22 @@ const mindMapSchema = new mongoose.Schema({
     },
     nodes: [nodeSchema],
     connections: [connectionSchema],
+    connectionRouting: {
+        type: String,
+        enum: ['straight', 'bezier', 'orthogonal'],
+        default: 'straight'
+    },
+    // Built-in theme name or the id of a custom theme saved by the user
+    themeId: {
+        type: String,
+        default: 'classic'
+    },
+    // Width range nodes are sized within
+    nodeWidth: {
+        type: String,
+        enum: ['compact', 'normal', 'wide'],
+        default: 'normal'
+    },
     createdAt: {
         type: Date,
         default: Date.now
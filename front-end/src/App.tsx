@@ -1,61 +1,79 @@
-import React, { useState, useEffect, useCallback } from 'react';
-
-// Undo/Redo history hook
-function useHistory<T>(initialState: T) {
-  const [history, setHistory] = useState<T[]>([initialState]);
-  const [pointer, setPointer] = useState(0);
-
-  const set = (newState: T) => {
-    const updated = history.slice(0, pointer + 1);
-    setHistory([...updated, newState]);
-    setPointer(updated.length);
-  };
-
-  const undo = () => {
-    if (pointer > 0) setPointer(pointer - 1);
-  };
-  const redo = () => {
-    if (pointer < history.length - 1) setPointer(pointer + 1);
-  };
-
-  return {
-    state: history[pointer],
-    set,
-    undo,
-    redo,
-    canUndo: pointer > 0,
-    canRedo: pointer < history.length - 1
-  };
-}
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import MindMapCanvas from './components/MindMapCanvas/MindMapCanvas';
 import MapListSidebar from './components/MapListSidebar/MapListSidebar';
 import NodeEditorPanel from './components/NodeEditor/NodeEditorPanel';
+import ConnectionEditorPanel from './components/ConnectionEditor/ConnectionEditorPanel';
 import AuthWrapper from './components/Auth/AuthWrapper';
 import UserProfile from './components/Auth/UserProfile';
 import UserDashboard from './components/Dashboard/UserDashboard';
 import ExportControls from './components/ExportControls/ExportControls';
+import ZoomControls from './components/ZoomControls/ZoomControls';
+import Minimap from './components/Minimap/Minimap';
+import LayoutControls from './components/LayoutControls/LayoutControls';
+import ThemeControls from './components/ThemeControls/ThemeControls';
+import ShortcutHelp from './components/ShortcutHelp/ShortcutHelp';
+import TagFilterBar from './components/TagFilterBar/TagFilterBar';
+import FindReplaceBar from './components/FindReplaceBar/FindReplaceBar';
 import { UserProvider, useUser } from './contexts/UserContext';
-import { MindMap, Node, Connection } from './types';
+import { AppThemeProvider, useAppTheme } from './contexts/AppThemeContext';
+import { APP_THEME_OPTIONS, AppThemePreference } from './components/styled/theme';
+import { MindMap, MapTheme, Node, NodePosition, Connection, ConnectionRouting, NodeWidth, Viewport } from './types';
 import { mindMapApi } from './services/api';
-import localStorageService, { LocalMindMap } from './services/localStorage';
+import localStorageService, { LOCAL_STORAGE_BUDGET, LocalMindMap } from './services/localStorage';
 import { login, register, checkPasswordStrength } from './services/authService';
 import { User } from './types';
 import {
   createNewNode,
   downloadJSON,
-  removeNodeConnections,
-  getCanvasBounds,
   createChildNode,
   findChildren,
+  findDescendants,
+  getHiddenNodeIds,
+  getNodeSize,
+  canReparent,
+  isValidConnection,
   migrateConnections,
+  updateNodePositions,
 } from './utils/mindMapUtils';
+import { DEFAULT_NODE_WIDTH, NODE_WIDTH_OPTIONS, getNodeWidthLimits, withNodeSize } from './utils/nodeSizeUtils';
+import { affectsNodeSize } from './utils/nodeStyleUtils';
+import { compressImage, getDataUrlSize } from './utils/imageUtils';
+import { getTaskProgress } from './utils/taskUtils';
+import { EMPTY_TAG_FILTER, TagFilter, collectTags, getFilteredOutIds } from './utils/tagUtils';
+import { buildSearchPattern, findMatchingNodes, replaceInText } from './utils/searchUtils';
+import { applyMapTheme, createThemeFromMap, getMapTheme } from './utils/mapThemeUtils';
+import { DEFAULT_CONNECTION_ROUTING, ROUTING_OPTIONS } from './utils/connectionRouting';
 import { exportMindMap, prepareElementForExport } from './utils/exportUtils';
+import { Alignment, DistributeAxis, alignNodes, distributeNodes } from './utils/alignmentUtils';
+import { LayoutType, computeLayout } from './utils/layoutUtils';
+import {
+  DEFAULT_VIEWPORT,
+  ZOOM_STEP,
+  fitNodesToViewport,
+  panNodeIntoView,
+  centerNodeInView,
+  screenToMap,
+  zoomAtPoint,
+} from './utils/viewportUtils';
+import { useElementSize } from './hooks/useElementSize';
+import { useMapHistory } from './hooks/useMapHistory';
+import { useNodeAnimation } from './hooks/useNodeAnimation';
+import { useForceLayout } from './hooks/useForceLayout';
+import { MapCommand, diffNodes, pickFields, removeNodesCommand, reparentNodeCommand } from './utils/historyUtils';
+import {
+  ARROW_DIRECTIONS,
+  isTypingTarget,
+  isCanvasTarget,
+  findNodeInDirection,
+  findNodeInHierarchy,
+} from './utils/keyboardUtils';
 import {
   AppContainer,
   Header,
   HeaderTitle,
   HeaderActions,
   Button,
+  HeaderSelect,
   MainContent,
   CanvasContainer,
   ErrorMessage,
@@ -66,36 +84,133 @@ import {
 
 function AppContent() {
   const { user, logout } = useUser();
+  const { theme: appTheme, preference: appThemePreference, setPreference: setAppThemePreference } = useAppTheme();
   // State management
   const [currentMap, setCurrentMap] = useState<MindMap | null>(null);
-  const nodesHistory = useHistory<Node[]>([]);
-  const connectionsHistory = useHistory<Connection[]>([]);
-  const nodes = nodesHistory.state;
-  const setNodes = nodesHistory.set;
-  const connections = connectionsHistory.state;
-  const setConnections = connectionsHistory.set;
-  const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
+  const history = useMapHistory({ title: '', nodes: [], connections: [] });
+  const { nodes, connections, title, connectionRouting, themeId, nodeWidth } = history.document;
+  const { execute, undo, redo, reset: resetHistory } = history;
+  // Latest document for callbacks that finish later, like a force layout settling
+  const documentRef = useRef(history.document);
+  documentRef.current = history.document;
+  const { animatedNodes, animate, cancel: cancelAnimation, isAnimating } = useNodeAnimation();
+  const forceLayout = useForceLayout();
+  const [selectedNodeIds, setSelectedNodeIds] = useState<string[]>([]);
+  // Single-node actions (add child, editing) work on the selection only when it holds one node
+  const selectedNodeId = selectedNodeIds.length === 1 ? selectedNodeIds[0] : null;
+  const setSelectedNodeId = useCallback((nodeId: string | null) => {
+    setSelectedNodeIds(nodeId ? [nodeId] : []);
+  }, []);
+  // Connections are identified by their endpoints; selecting one clears the node selection
+  const [selectedConnectionKey, setSelectedConnectionKey] = useState<{ from: string; to: string } | null>(null);
+  useEffect(() => {
+    if (selectedNodeIds.length > 0) setSelectedConnectionKey(null);
+  }, [selectedNodeIds]);
   const [maps, setMaps] = useState<MindMap[]>([]);
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
-  const [connectionMode, setConnectionMode] = useState(false);
-  const [connectingFrom, setConnectingFrom] = useState<string | null>(null);
+  const [dragSubtrees, setDragSubtrees] = useState(true);
+  const [showGrid, setShowGrid] = useState(false);
   const [useLocalStorage, setUseLocalStorage] = useState(true); // Always use localStorage
   const [showProfile, setShowProfile] = useState(false);
+  const [viewport, setViewport] = useState<Viewport>(DEFAULT_VIEWPORT);
+  const [editingNodeId, setEditingNodeId] = useState<string | null>(null);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [customThemes, setCustomThemes] = useState<MapTheme[]>([]);
+  const [tagFilter, setTagFilter] = useState<TagFilter>(EMPTY_TAG_FILTER);
+  const [showFind, setShowFind] = useState(false);
+  const [findQuery, setFindQuery] = useState('');
+  const [findRegex, setFindRegex] = useState(false);
+  const [findIndex, setFindIndex] = useState(-1); // Match the find box is on, -1 before stepping
+  const [findFocusRequest, setFindFocusRequest] = useState(0);
+  const { ref: canvasContainerRef, size: canvasSize } = useElementSize<HTMLDivElement>();
+
+  // Nodes and connections as the theme draws them; edits still go to the stored
+  // nodes, while layouts and alignment measure the themed sizes the canvas draws
+  const mapTheme = getMapTheme(themeId, customThemes);
+  const nodeWidthLimits = useMemo(() => getNodeWidthLimits(nodeWidth), [nodeWidth]);
+  const themed = useMemo(
+    () => applyMapTheme(nodes, connections, mapTheme, nodeWidthLimits),
+    [nodes, connections, mapTheme, nodeWidthLimits]
+  );
+  const themedNodesById = useMemo(() => new Map(themed.nodes.map(node => [node.id, node])), [themed]);
+
+  // Tags of this map for the filter bar, and of every map as suggestions in the editor
+  const mapTags = useMemo(() => collectTags(nodes), [nodes]);
+  const knownTags = useMemo(() => collectTags([...maps.flatMap(map => map.nodes), ...nodes]), [maps, nodes]);
+  // Picked tags that no node carries any more are ignored
+  const activeTagFilter = useMemo(
+    () => ({ ...tagFilter, tags: tagFilter.tags.filter(tag => mapTags.includes(tag)) }),
+    [tagFilter, mapTags]
+  );
+  const filteredOutIds = useMemo(() => getFilteredOutIds(nodes, activeTagFilter), [nodes, activeTagFilter]);
+  // What the canvas shows: no collapsed branches, and no nodes a "hide" tag filter leaves out.
+  // The minimap and zoom to fit go by these too.
+  const shownNodes = useMemo(() => {
+    const hiddenIds = getHiddenNodeIds(nodes);
+    const tagHidden = activeTagFilter.display === 'hide';
+    return themed.nodes.filter(node => !hiddenIds.has(node.id) && !(tagHidden && filteredOutIds.has(node.id)));
+  }, [nodes, themed, activeTagFilter.display, filteredOutIds]);
 
   // Load all maps on component mount
   useEffect(() => {
     loadMaps();
   }, []);
 
-  // Mark as having unsaved changes when nodes or connections change
+  // Every edit, undo or redo marks the map as modified; loading a map resets the history instead
   useEffect(() => {
-    if (currentMap && (nodes.length > 0 || connections.length > 0)) {
+    if (history.version > 0) {
       setHasUnsavedChanges(true);
     }
-  }, [nodes, connections, currentMap]);
+  }, [history.version]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y) undo and redo, except while typing in a field
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isTypingTarget(e.target)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  // Remember the pan/zoom of each map, debounced since wheel zooming fires rapidly
+  const currentMapId = currentMap?._id;
+  useEffect(() => {
+    if (!currentMapId) return;
+    const timeout = setTimeout(() => localStorageService.saveViewport(currentMapId, viewport), 300);
+    return () => clearTimeout(timeout);
+  }, [viewport, currentMapId]);
+
+  // Tag filters and the find position belong to the map they were set on
+  useEffect(() => {
+    setTagFilter(EMPTY_TAG_FILTER);
+    setFindIndex(-1);
+  }, [currentMapId]);
+
+  // Ctrl+F opens the find box over the map, also from a text field
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'f' || !currentMapId) return;
+      e.preventDefault();
+      setShowFind(true);
+      setFindFocusRequest(request => request + 1);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [currentMapId]);
 
   const loadMaps = async () => {
     console.log(`📂 LOAD MAPS STARTED - using localStorage`);
@@ -110,11 +225,15 @@ function AppContent() {
         title: map.title,
         nodes: map.nodes,
         connections: map.connections,
+        connectionRouting: map.connectionRouting,
+        themeId: map.themeId,
+        nodeWidth: map.nodeWidth,
         createdAt: map.createdAt,
         updatedAt: map.updatedAt
       }));
       console.log(`📦 Loaded ${convertedMaps.length} maps from localStorage`);
       setMaps(convertedMaps);
+      setCustomThemes(localStorageService.getCustomThemes());
     } catch (err) {
       console.error('❌ Error loading maps from localStorage:', err);
       setError('Failed to load mind maps from local storage.');
@@ -123,15 +242,33 @@ function AppContent() {
     }
   };
 
+  // A layout still running must neither draw over nor commit into another map
+  const stopLayouts = () => {
+    forceLayout.cancel();
+    cancelAnimation();
+  };
+
   const loadMap = async (map: MindMap) => {
     try {
+      stopLayouts();
       setCurrentMap(map);
-      setNodes(map.nodes);
 
       // Migrate connections to include type information
       const migratedConnections = migrateConnections(map.connections, map.nodes);
-      setConnections(migratedConnections);
+      // Maps saved before nodes were auto-sized get sizes fitted to their text
+      const widthLimits = getNodeWidthLimits(map.nodeWidth);
+      const sizedNodes = map.nodes.map(node => (node.width && node.height ? node : withNodeSize(node, widthLimits)));
+      resetHistory({
+        title: map.title,
+        nodes: sizedNodes,
+        connections: migratedConnections,
+        connectionRouting: map.connectionRouting,
+        themeId: map.themeId,
+        nodeWidth: map.nodeWidth,
+      });
+      setEditingNodeId(null);
 
+      setViewport((map._id && localStorageService.getViewport(map._id)) || DEFAULT_VIEWPORT);
       setSelectedNodeId(null);
       setHasUnsavedChanges(false);
       setSidebarOpen(false);
@@ -141,8 +278,47 @@ function AppContent() {
     }
   };
 
+  // Search results open their map; node results also select the node and center it
+  const handleSearchResultSelect = async (mapId: string, nodeId: string | null) => {
+    // The open map stays as it is, unsaved edits and undo history included; other maps
+    // load the way picking them from the list does
+    const isOpenMap = mapId === currentMapId;
+    let mapNodes = nodes;
+    let widthLimits = nodeWidthLimits;
+    if (isOpenMap) {
+      setSidebarOpen(false);
+    } else {
+      const map = maps.find(m => m._id === mapId);
+      if (!map) return;
+      await loadMap(map);
+      mapNodes = map.nodes;
+      widthLimits = getNodeWidthLimits(map.nodeWidth);
+    }
+
+    const node = nodeId ? mapNodes.find(n => n.id === nodeId) : undefined;
+    if (!node) return;
+    // Collapsed ancestors open up (one undo step) so the node itself is drawn
+    const nodesById = new Map(mapNodes.map(n => [n.id, n]));
+    const expand: MapCommand[] = [];
+    let ancestor = node.parent ? nodesById.get(node.parent) : undefined;
+    while (ancestor) {
+      if (ancestor.collapsed) {
+        expand.push({ type: 'update-node', nodeId: ancestor.id, before: { collapsed: true }, after: { collapsed: false } });
+      }
+      ancestor = ancestor.parent ? nodesById.get(ancestor.parent) : undefined;
+    }
+    if (expand.length > 0) {
+      execute(expand.length === 1 ? expand[0] : { type: 'batch', commands: expand });
+    }
+
+    setSelectedNodeId(node.id);
+    const sized = (isOpenMap && themedNodesById.get(node.id)) || (node.width && node.height ? node : withNodeSize(node, widthLimits));
+    setViewport(prev => centerNodeInView(sized, prev, canvasSize));
+  };
+
   const createNewMap = async (title: string) => {
     try {
+      stopLayouts();
       const localMap = localStorageService.saveMap({
         title,
         nodes: [],
@@ -153,14 +329,17 @@ function AppContent() {
         title: localMap.title,
         nodes: localMap.nodes,
         connections: localMap.connections,
+        connectionRouting: localMap.connectionRouting,
+        themeId: localMap.themeId,
+        nodeWidth: localMap.nodeWidth,
         createdAt: localMap.createdAt,
         updatedAt: localMap.updatedAt
       };
 
       setMaps(prev => [newMap, ...prev]);
       setCurrentMap(newMap);
-      setNodes([]);
-      setConnections([]);
+      resetHistory({ title: newMap.title, nodes: [], connections: [] });
+      setViewport(DEFAULT_VIEWPORT);
       setSelectedNodeId(null);
       setHasUnsavedChanges(false);
     } catch (err) {
@@ -176,15 +355,21 @@ function AppContent() {
     setLoading(true);
     try {
       const localMap = localStorageService.updateMap(currentMap._id!, {
-        title: currentMap.title,
+        title,
         nodes,
         connections,
+        connectionRouting,
+        themeId,
+        nodeWidth,
       });
       const updatedMap: MindMap = {
         _id: localMap.id,
         title: localMap.title,
         nodes: localMap.nodes,
         connections: localMap.connections,
+        connectionRouting: localMap.connectionRouting,
+        themeId: localMap.themeId,
+        nodeWidth: localMap.nodeWidth,
         createdAt: localMap.createdAt,
         updatedAt: localMap.updatedAt
       };
@@ -212,6 +397,9 @@ function AppContent() {
         title: map.title,
         nodes: map.nodes,
         connections: map.connections,
+        connectionRouting: map.connectionRouting,
+        themeId: map.themeId,
+        nodeWidth: map.nodeWidth,
         createdAt: map.createdAt,
         updatedAt: map.updatedAt
       }));
@@ -219,9 +407,9 @@ function AppContent() {
 
       // If deleted map is currently loaded, clear it
       if (currentMap?._id === mapId || currentMap?.id === mapId) {
+        stopLayouts();
         setCurrentMap(null);
-        setNodes([]);
-        setConnections([]);
+        resetHistory({ title: '', nodes: [], connections: [] });
         setSelectedNodeId(null);
         setHasUnsavedChanges(false);
       }
@@ -235,100 +423,520 @@ function AppContent() {
   };
 
   const handleCanvasClick = useCallback((x: number, y: number) => {
-    const newNode = createNewNode(x - 60, y - 20); // Center the node on click
-    setNodes([...nodes, newNode]);
-  }, [nodes, setNodes]);
+    // Center the node on the click, whatever size its width range gives it
+    const sized = withNodeSize(createNewNode(x, y), nodeWidthLimits);
+    const size = getNodeSize(sized);
+    const newNode = { ...sized, x: x - size.width / 2, y: y - size.height / 2 };
+    execute({ type: 'add-node', node: newNode });
+  }, [execute, nodeWidthLimits]);
 
   const handleAddNode = useCallback(() => {
-    const canvasCenter = { x: 400, y: 300 };
-    const newNode = createNewNode(
+    // Place new nodes around the center of the visible area
+    const canvasCenter = screenToMap(
+      { x: canvasSize.width / 2 - 60, y: canvasSize.height / 2 - 20 },
+      viewport
+    );
+    const newNode = withNodeSize(createNewNode(
       canvasCenter.x + Math.random() * 100 - 50,
       canvasCenter.y + Math.random() * 100 - 50,
       'New Node'
-    );
-    setNodes([...nodes, newNode]);
+    ), nodeWidthLimits);
+    execute({ type: 'add-node', node: newNode });
     setSelectedNodeId(newNode.id);
-  }, [nodes, setNodes]);
+  }, [execute, canvasSize, viewport, setSelectedNodeId, nodeWidthLimits]);
 
-  const handleAddChildNode = useCallback(() => {
-    if (!selectedNodeId) return;
+  const handleAddChildNode = useCallback((): string | null => {
+    if (!selectedNodeId) return null;
     const parentNode = nodes.find(node => node.id === selectedNodeId);
-    if (!parentNode) return;
+    if (!parentNode) return null;
     const existingChildren = findChildren(selectedNodeId, nodes);
     const childOffset = {
       x: 150 + (existingChildren.length * 50),
       y: 80
     };
-    const childNode = createChildNode(parentNode, childOffset, 'Child Node');
-    setNodes([...nodes, childNode]);
+    const childNode = withNodeSize(createChildNode(parentNode, childOffset, 'Child Node'), nodeWidthLimits);
     const newConnection: Connection = {
       from: selectedNodeId,
       to: childNode.id,
       type: 'parent-child'
     };
-    setConnections([...connections, newConnection]);
+    const commands: MapCommand[] = [
+      { type: 'add-node', node: childNode },
+      { type: 'add-connection', connection: newConnection },
+    ];
+    // A new child of a collapsed node would be hidden right away
+    if (parentNode.collapsed) {
+      commands.push({ type: 'update-node', nodeId: parentNode.id, before: { collapsed: true }, after: { collapsed: false } });
+    }
+    // Node and connection are added as one undoable step
+    execute({ type: 'batch', commands });
     setSelectedNodeId(childNode.id);
-  }, [selectedNodeId, nodes, connections, setNodes, setConnections]);
-
-  const handleNodeSelect = useCallback((nodeId: string | null) => {
-    if (connectionMode && nodeId) {
-      if (!connectingFrom) {
-        setConnectingFrom(nodeId);
-        setSelectedNodeId(nodeId);
-      } else if (connectingFrom !== nodeId) {
-        const newConnection: Connection = {
-          from: connectingFrom,
-          to: nodeId,
-          type: 'regular'
-        };
-        const exists = connections.some(conn =>
-          (conn.from === connectingFrom && conn.to === nodeId) ||
-          (conn.from === nodeId && conn.to === connectingFrom)
-        );
-        if (!exists) {
-          setConnections([...connections, newConnection]);
-        }
-        setConnectionMode(false);
-        setConnectingFrom(null);
-        setSelectedNodeId(nodeId);
-      }
+    return childNode.id;
+  }, [selectedNodeId, nodes, execute, setSelectedNodeId, nodeWidthLimits]);
+
+  // New node below the selected one, under the same parent
+  const handleAddSiblingNode = useCallback((): string | null => {
+    const node = selectedNodeId ? nodes.find(n => n.id === selectedNodeId) : undefined;
+    if (!node) return null;
+    // Below the lowest sibling, so the new node does not land on an existing one
+    const siblings = nodes.filter(n => n.parent === node.parent);
+    const bottom = Math.max(...siblings.map(sibling => sibling.y + getNodeSize(sibling).height));
+    const siblingNode: Node = {
+      ...createNewNode(node.x, bottom + 20),
+      parent: node.parent,
+    };
+    const commands: MapCommand[] = [{ type: 'add-node', node: siblingNode }];
+    if (node.parent) {
+      commands.push({
+        type: 'add-connection',
+        connection: { from: node.parent, to: siblingNode.id, type: 'parent-child' },
+      });
+    }
+    execute(commands.length === 1 ? commands[0] : { type: 'batch', commands });
+    setSelectedNodeId(siblingNode.id);
+    return siblingNode.id;
+  }, [selectedNodeId, nodes, execute, setSelectedNodeId]);
+
+  const handleNodeSelect = useCallback((nodeId: string | null, additive: boolean = false) => {
+    if (!nodeId) setSelectedConnectionKey(null);
+    if (additive && nodeId) {
+      // Shift/Ctrl-click toggles the node in the current selection
+      setSelectedNodeIds(prev => prev.includes(nodeId)
+        ? prev.filter(id => id !== nodeId)
+        : [...prev, nodeId]);
     } else {
       setSelectedNodeId(nodeId);
     }
-  }, [connectionMode, connectingFrom, connections, setConnections]);
+  }, [setSelectedNodeId]);
 
-  const toggleConnectionMode = useCallback(() => {
-    setConnectionMode(prev => !prev);
-    setConnectingFrom(null);
-    if (connectionMode) {
-      setSelectedNodeId(null);
+  const handleMarqueeSelect = useCallback((nodeIds: string[], additive: boolean) => {
+    setSelectedNodeIds(prev => additive
+      ? [...prev, ...nodeIds.filter(id => !prev.includes(id))]
+      : nodeIds);
+  }, []);
+
+  // A connection handle dragged from one node and dropped onto another
+  const handleConnectionCreate = useCallback((fromNodeId: string, toNodeId: string) => {
+    if (!isValidConnection(fromNodeId, toNodeId, connections)) return;
+    const newConnection: Connection = {
+      from: fromNodeId,
+      to: toNodeId,
+      type: 'regular'
+    };
+    execute({ type: 'add-connection', connection: newConnection });
+  }, [connections, execute]);
+
+  // Moves every dragged node in a single history step; repeated drags of the
+  // same nodes in quick succession coalesce into that step
+  const handleNodesDrag = useCallback((positions: NodePosition[]) => {
+    const commands: MapCommand[] = [];
+    positions.forEach(position => {
+      const node = nodes.find(n => n.id === position.id);
+      if (node) {
+        commands.push({
+          type: 'move-node',
+          nodeId: node.id,
+          from: { x: node.x, y: node.y },
+          to: { x: position.x, y: position.y },
+        });
+      }
+    });
+    if (commands.length === 0) return;
+    execute(
+      commands.length === 1 ? commands[0] : { type: 'batch', commands },
+      { coalesceKey: `move:${positions.map(position => position.id).join(',')}` }
+    );
+  }, [nodes, execute]);
+
+  const handleNodesUpdate = useCallback((nodeIds: string[], updates: Partial<Node>) => {
+    const updatedNodes = nodes.map(node => {
+      if (!nodeIds.includes(node.id)) return node;
+      // Nodes grow or shrink with their text, font and shape
+      const updated = { ...node, ...updates };
+      return affectsNodeSize(updates) ? withNodeSize(updated, nodeWidthLimits) : updated;
+    });
+    const commands = diffNodes(nodes, updatedNodes);
+    if (commands.length === 0) return;
+    execute(
+      commands.length === 1 ? commands[0] : { type: 'batch', commands },
+      { coalesceKey: `update:${nodeIds.join(',')}:${Object.keys(updates).sort().join(',')}` }
+    );
+  }, [nodes, execute, nodeWidthLimits]);
+
+  // Dropping a node onto another makes it a child there; its subtree moves along
+  const handleNodeReparent = useCallback((nodeId: string, newParentId: string) => {
+    const node = nodes.find(n => n.id === nodeId);
+    const newParent = nodes.find(n => n.id === newParentId);
+    if (!node || !newParent || !canReparent(nodeId, newParentId, nodes)) return;
+
+    // Same spot handleAddChildNode picks for a new child
+    const childCount = findChildren(newParentId, nodes).length;
+    const dx = newParent.x + 150 + childCount * 50 - node.x;
+    const dy = newParent.y + 80 - node.y;
+    const moves: MapCommand[] = [node, ...findDescendants(nodeId, nodes)].map(moved => ({
+      type: 'move-node',
+      nodeId: moved.id,
+      from: { x: moved.x, y: moved.y },
+      to: { x: moved.x + dx, y: moved.y + dy },
+    }));
+
+    const commands: MapCommand[] = [reparentNodeCommand(history.document, nodeId, newParentId), ...moves];
+    if (newParent.collapsed) {
+      commands.push({ type: 'update-node', nodeId: newParentId, before: { collapsed: true }, after: { collapsed: false } });
     }
-  }, [connectionMode]);
+    execute({ type: 'batch', commands });
+    setSelectedNodeId(nodeId);
+  }, [nodes, history.document, execute, setSelectedNodeId]);
+
+  const selectedConnection = selectedConnectionKey
+    ? connections.find(conn => conn.from === selectedConnectionKey.from && conn.to === selectedConnectionKey.to) || null
+    : null;
 
-  const handleNodeDrag = useCallback((nodeId: string, x: number, y: number) => {
-    setNodes(nodes.map(node =>
-      node.id === nodeId ? { ...node, x, y } : node
-    ));
-  }, [nodes, setNodes]);
+  const handleConnectionSelect = useCallback((connection: Connection) => {
+    setSelectedNodeIds([]);
+    setSelectedConnectionKey({ from: connection.from, to: connection.to });
+  }, []);
+
+  const handleConnectionUpdate = useCallback((connection: Connection, updates: Partial<Connection>) => {
+    const before = pickFields(connection, Object.keys(updates) as (keyof Connection)[]);
+    execute(
+      { type: 'update-connection', from: connection.from, to: connection.to, before, after: updates },
+      { coalesceKey: `connection:${connection.from}:${connection.to}:${Object.keys(updates).sort().join(',')}` }
+    );
+  }, [execute]);
+
+  const handleConnectionDelete = useCallback((connection: Connection) => {
+    const index = connections.indexOf(connection);
+    if (index === -1) return;
+    execute({ type: 'remove-connection', connection, index });
+    setSelectedConnectionKey(null);
+  }, [connections, execute]);
 
   const handleNodeUpdate = useCallback((nodeId: string, updates: Partial<Node>) => {
-    setNodes(nodes.map(node =>
-      node.id === nodeId ? { ...node, ...updates } : node
-    ));
-  }, [nodes, setNodes]);
+    handleNodesUpdate([nodeId], updates);
+  }, [handleNodesUpdate]);
+
+  // Checkbox of a task node on the canvas
+  // Each toggle is its own undo step, so quick toggles do not merge into a no-op
+  const handleTaskToggle = useCallback((nodeId: string) => {
+    const node = nodes.find(n => n.id === nodeId);
+    if (!node || !node.task) return;
+    execute({
+      type: 'update-node',
+      nodeId,
+      before: { task: node.task },
+      after: { task: { ...node.task, done: !node.task.done } },
+    });
+  }, [nodes, execute]);
+
+  // Images are scaled down and stored in the map itself, so warn when local storage runs full
+  const handleNodeImageAdd = useCallback(async (nodeId: string, file: Blob) => {
+    try {
+      const image = await compressImage(file);
+      handleNodeUpdate(nodeId, { image });
+      const usage = localStorageService.getStorageUsage() + getDataUrlSize(image.src);
+      if (usage > LOCAL_STORAGE_BUDGET * 0.8) {
+        setError(
+          `Local storage is ${Math.round((usage / LOCAL_STORAGE_BUDGET) * 100)}% full, mostly from images. ` +
+          'Remove some images or saving this map may fail.'
+        );
+      }
+    } catch (err) {
+      console.error('Failed to add image:', err);
+      setError(err instanceof Error ? err.message : 'Failed to add image');
+    }
+  }, [handleNodeUpdate]);
+
+  // Pasting an image, e.g. a screenshot, puts it into the selected node
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      if (!selectedNodeId || editingNodeId || isTypingTarget(e.target)) return;
+      const item = Array.from(e.clipboardData?.items || [])
+        .find(clipboardItem => clipboardItem.kind === 'file' && clipboardItem.type.startsWith('image/'));
+      const file = item?.getAsFile();
+      if (!file) return;
+      e.preventDefault();
+      handleNodeImageAdd(selectedNodeId, file);
+    };
+
+    document.addEventListener('paste', handlePaste);
+    return () => document.removeEventListener('paste', handlePaste);
+  }, [selectedNodeId, editingNodeId, handleNodeImageAdd]);
+
+  const handleNodesDelete = useCallback((nodeIds: string[]) => {
+    execute(removeNodesCommand(history.document, nodeIds));
+    setSelectedNodeIds([]);
+  }, [history.document, execute]);
 
   const handleNodeDelete = useCallback((nodeId: string) => {
-    setNodes(nodes.filter(node => node.id !== nodeId));
-    setConnections(removeNodeConnections(nodeId, connections));
-    setSelectedNodeId(null);
-  }, [nodes, connections, setNodes, setConnections]);
+    handleNodesDelete([nodeId]);
+  }, [handleNodesDelete]);
+
+  const handleNodesAlign = useCallback((alignment: Alignment) => {
+    const aligned = alignNodes(themed.nodes, selectedNodeIds, alignment);
+    const commands = diffNodes(nodes, updateNodePositions(aligned, nodes));
+    if (commands.length === 0) return;
+    execute({ type: 'batch', commands });
+  }, [nodes, themed, selectedNodeIds, execute]);
+
+  const handleNodesDistribute = useCallback((axis: DistributeAxis) => {
+    const distributed = distributeNodes(themed.nodes, selectedNodeIds, axis);
+    const commands = diffNodes(nodes, updateNodePositions(distributed, nodes));
+    if (commands.length === 0) return;
+    execute({ type: 'batch', commands });
+  }, [nodes, themed, selectedNodeIds, execute]);
+
+  // Arrange the whole map, or only the selected node's subtree, and animate into place
+  const handleApplyLayout = useCallback((type: LayoutType, subtreeOnly: boolean) => {
+    const rootId = subtreeOnly && selectedNodeId ? selectedNodeId : undefined;
+
+    if (type === 'force') {
+      // Everything outside the selected subtree stays put while the subtree settles
+      const subtreeIds = rootId
+        ? new Set([rootId, ...findDescendants(rootId, nodes).map(node => node.id)])
+        : null;
+      const fixedNodeIds = subtreeIds ? nodes.filter(node => !subtreeIds.has(node.id)).map(node => node.id) : [];
+      forceLayout.start(themed.nodes, connections, positions => {
+        // The map may have been edited while the layout ran
+        const currentNodes = documentRef.current.nodes;
+        const commands = diffNodes(currentNodes, updateNodePositions(positions, currentNodes));
+        if (commands.length > 0) {
+          execute({ type: 'batch', commands });
+        }
+      }, { fixedNodeIds });
+      return;
+    }
+
+    const positions = computeLayout(themed.nodes, type, rootId);
+    const commands = diffNodes(nodes, updateNodePositions(positions, nodes));
+    if (commands.length === 0) return;
+
+    animate(nodes, positions, () => execute({ type: 'batch', commands }));
+  }, [nodes, themed, connections, selectedNodeId, animate, execute, forceLayout]);
+
+  const handleNodeEditStart = useCallback((nodeId: string) => {
+    setSelectedNodeId(nodeId);
+    setEditingNodeId(nodeId);
+  }, [setSelectedNodeId]);
+
+  // Text edited on the canvas goes through the history like any other edit
+  const handleNodeTextCommit = useCallback((nodeId: string, text: string) => {
+    setEditingNodeId(null);
+    const node = nodes.find(n => n.id === nodeId);
+    const newText = text.trim();
+    if (!node || !newText || newText === node.text) return;
+    const sized = withNodeSize({ ...node, text: newText }, nodeWidthLimits);
+    execute({
+      type: 'update-node',
+      nodeId,
+      before: { text: node.text, width: node.width, height: node.height },
+      after: { text: sized.text, width: sized.width, height: sized.height },
+    });
+  }, [nodes, execute, nodeWidthLimits]);
+
+  const handleNodeEditCancel = useCallback(() => {
+    setEditingNodeId(null);
+  }, []);
+
+  const handleToggleCollapse = useCallback((nodeId: string) => {
+    const node = nodes.find(n => n.id === nodeId);
+    if (!node) return;
+    execute({
+      type: 'update-node',
+      nodeId,
+      before: { collapsed: node.collapsed },
+      after: { collapsed: !node.collapsed },
+    });
+
+    // Nodes disappearing into the collapsed branch drop out of the selection
+    if (!node.collapsed) {
+      const hiddenIds = new Set(findDescendants(nodeId, nodes).map(n => n.id));
+      setSelectedNodeIds(prev => prev.filter(id => !hiddenIds.has(id)));
+    }
+  }, [nodes, execute]);
+
+  const handleRenameMap = useCallback(() => {
+    const newTitle = window.prompt('Rename mind map:', title);
+    if (newTitle && newTitle.trim() && newTitle.trim() !== title) {
+      execute({ type: 'rename-map', from: title, to: newTitle.trim() });
+    }
+  }, [title, execute]);
+
+  const handleConnectionRoutingChange = useCallback((routing: ConnectionRouting) => {
+    if (routing === (connectionRouting || DEFAULT_CONNECTION_ROUTING)) return;
+    execute({ type: 'update-map', before: { connectionRouting }, after: { connectionRouting: routing } });
+  }, [connectionRouting, execute]);
+
+  // Every node is re-measured for the new width range in the same undo step
+  const handleNodeWidthChange = useCallback((newNodeWidth: NodeWidth) => {
+    if (newNodeWidth === (nodeWidth || DEFAULT_NODE_WIDTH)) return;
+    const widthLimits = getNodeWidthLimits(newNodeWidth);
+    execute({
+      type: 'batch',
+      commands: [
+        { type: 'update-map', before: { nodeWidth }, after: { nodeWidth: newNodeWidth } },
+        ...diffNodes(nodes, nodes.map(node => withNodeSize(node, widthLimits))),
+      ],
+    });
+  }, [nodeWidth, nodes, execute]);
+
+  // Only the map's theme changes; the white fill older maps stored on every node is
+  // ignored when the theme is applied, see applyMapTheme
+  const handleThemeChange = useCallback((newThemeId: string) => {
+    if (newThemeId === getMapTheme(themeId, customThemes).id) return;
+    execute({ type: 'update-map', before: { themeId }, after: { themeId: newThemeId } });
+  }, [themeId, customThemes, execute]);
+
+  const handleThemeSave = useCallback((name: string) => {
+    const theme = createThemeFromMap(name, nodes, getMapTheme(themeId, customThemes));
+    try {
+      setCustomThemes(localStorageService.saveCustomTheme(theme));
+      execute({ type: 'update-map', before: { themeId }, after: { themeId: theme.id } });
+    } catch (err) {
+      setError('Failed to save theme');
+      console.error('Error saving theme:', err);
+    }
+  }, [nodes, themeId, customThemes, execute]);
+
+  const handleThemeDelete = useCallback((deletedThemeId: string) => {
+    try {
+      setCustomThemes(localStorageService.deleteCustomTheme(deletedThemeId));
+      // Maps still naming the deleted theme fall back to the default one
+      if (themeId === deletedThemeId) {
+        execute({ type: 'update-map', before: { themeId }, after: { themeId: undefined } });
+      }
+    } catch (err) {
+      setError('Failed to delete theme');
+      console.error('Error deleting theme:', err);
+    }
+  }, [themeId, execute]);
+
+  const handleZoomBy = useCallback((factor: number) => {
+    const center = { x: canvasSize.width / 2, y: canvasSize.height / 2 };
+    setViewport(zoomAtPoint(viewport, center, viewport.scale * factor));
+  }, [canvasSize, viewport]);
+
+  // Fitting measures the themed nodes, whose sizes follow the theme's fonts and shapes
+  const handleZoomToFit = useCallback(() => {
+    setViewport(fitNodesToViewport(shownNodes, canvasSize));
+  }, [shownNodes, canvasSize]);
+
+  const handleZoomToSelection = useCallback(() => {
+    const selected = themed.nodes.filter(node => selectedNodeIds.includes(node.id));
+    if (selected.length === 0) return;
+    setViewport(fitNodesToViewport(selected, canvasSize, 40, 1.5));
+  }, [themed, selectedNodeIds, canvasSize]);
+
+  // Mouse-free editing: Tab/Enter add nodes, arrows move the selection, Space edits and
+  // Delete removes. Ignored while typing in a field or editing a node on the canvas.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isTypingTarget(e.target) || editingNodeId || showShortcuts || e.ctrlKey || e.metaKey) return;
+
+      if (e.key === '?') {
+        e.preventDefault();
+        setShowShortcuts(true);
+        return;
+      }
+      if (!currentMap) return;
+
+      const direction = ARROW_DIRECTIONS[e.key];
+      if (direction) {
+        e.preventDefault();
+        const hiddenIds = getHiddenNodeIds(nodes);
+        const visibleNodes = nodes.filter(node => !hiddenIds.has(node.id));
+        const current = selectedNodeId ? visibleNodes.find(node => node.id === selectedNodeId) : undefined;
+        const next = !current
+          ? visibleNodes[0]
+          : e.altKey
+            ? findNodeInHierarchy(visibleNodes, current, direction)
+            : findNodeInDirection(visibleNodes, current, direction);
+        if (next) {
+          setSelectedNodeId(next.id);
+          setViewport(prev => panNodeIntoView(next, prev, canvasSize));
+        }
+        return;
+      }
+      if (e.altKey) return;
+
+      // Let focused buttons handle their own Enter and Space presses
+      const onButton = (e.target as HTMLElement | null)?.tagName === 'BUTTON';
+      let newNodeId: string | null = null;
+      switch (e.key) {
+        case 'Tab':
+          // Elsewhere Tab keeps moving the focus between controls
+          if (!selectedNodeId || !isCanvasTarget(e.target)) return;
+          e.preventDefault();
+          newNodeId = handleAddChildNode();
+          break;
+        case 'Enter':
+          if (!selectedNodeId || onButton) return;
+          e.preventDefault();
+          newNodeId = handleAddSiblingNode();
+          break;
+        case ' ':
+        case 'F2':
+          if (!selectedNodeId || onButton) return;
+          e.preventDefault();
+          setEditingNodeId(selectedNodeId);
+          return;
+        case 'Delete':
+        case 'Backspace':
+          if (selectedConnection) {
+            e.preventDefault();
+            handleConnectionDelete(selectedConnection);
+            return;
+          }
+          if (selectedNodeIds.length === 0) return;
+          e.preventDefault();
+          handleNodesDelete(selectedNodeIds);
+          return;
+        case 'Escape':
+          setSelectedNodeId(null);
+          setSelectedConnectionKey(null);
+          return;
+        default:
+          return;
+      }
+
+      // Type straight into the node that was just added
+      if (newNodeId) {
+        setEditingNodeId(newNodeId);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [
+    currentMap,
+    nodes,
+    selectedNodeId,
+    selectedNodeIds,
+    editingNodeId,
+    showShortcuts,
+    canvasSize,
+    handleAddChildNode,
+    handleAddSiblingNode,
+    handleNodesDelete,
+    handleConnectionDelete,
+    selectedConnection,
+    setSelectedNodeId,
+  ]);
 
   const handleExportJSON = () => {
     if (currentMap) {
-      downloadJSON(currentMap.title, nodes, connections);
+      downloadJSON(title, nodes, connections);
     }
   };
 
+  // Fit the whole map into the canvas while exporting so nodes outside the visible
+  // area are not cut off; returns a function restoring the previous view
+  const fitMapForExport = () => {
+    const previousViewport = viewport;
+    setViewport(fitNodesToViewport(shownNodes, canvasSize));
+    return () => setViewport(previousViewport);
+  };
+
   const handleExportPNG = async () => {
     if (!currentMap) return;
 
@@ -340,17 +948,19 @@ function AppContent() {
       }
 
       const cleanup = prepareElementForExport(canvasContainer);
+      const restoreViewport = fitMapForExport();
 
       // Wait a brief moment for any UI changes to take effect
       await new Promise(resolve => setTimeout(resolve, 100));
 
       await exportMindMap(canvasContainer, 'png', {
-        filename: currentMap.title.replace(/[^a-z0-9]/gi, '_').toLowerCase(),
+        filename: title.replace(/[^a-z0-9]/gi, '_').toLowerCase(),
         quality: 2,
-        backgroundColor: '#ffffff'
+        backgroundColor: mapTheme.background || appTheme.canvas.background
       });
 
       cleanup();
+      restoreViewport();
     } catch (error) {
       console.error('Failed to export PNG:', error);
       alert('Failed to export PNG. Please try again.');
@@ -368,25 +978,103 @@ function AppContent() {
       }
 
       const cleanup = prepareElementForExport(canvasContainer);
+      const restoreViewport = fitMapForExport();
 
       // Wait a brief moment for any UI changes to take effect
       await new Promise(resolve => setTimeout(resolve, 100));
 
       await exportMindMap(canvasContainer, 'pdf', {
-        filename: currentMap.title.replace(/[^a-z0-9]/gi, '_').toLowerCase(),
+        filename: title.replace(/[^a-z0-9]/gi, '_').toLowerCase(),
         quality: 2,
-        backgroundColor: '#ffffff'
+        backgroundColor: mapTheme.background || appTheme.canvas.background
       });
 
       cleanup();
+      restoreViewport();
     } catch (error) {
       console.error('Failed to export PDF:', error);
       alert('Failed to export PDF. Please try again.');
     }
   };
 
-  const selectedNode = selectedNodeId ? nodes.find(node => node.id === selectedNodeId) || null : null;
-  const canvasBounds = getCanvasBounds(nodes);
+  // Layout previews and animations only move nodes, so their positions go onto the themed nodes
+  const movingNodes = forceLayout.previewNodes || animatedNodes;
+  const positionedNodes = movingNodes
+    ? movingNodes.map(node => ({ ...(themedNodesById.get(node.id) || node), x: node.x, y: node.y }))
+    : themed.nodes;
+
+  const canvasNodes = activeTagFilter.display === 'hide' && filteredOutIds.size > 0
+    ? positionedNodes.filter(node => !filteredOutIds.has(node.id))
+    : positionedNodes;
+
+  // Find and replace works on the nodes the canvas shows, in reading order
+  const findPattern = useMemo(() => buildSearchPattern(findQuery, { regex: findRegex }), [findQuery, findRegex]);
+  const findMatches = useMemo(
+    () => (showFind ? findMatchingNodes(shownNodes, findPattern) : []),
+    [showFind, shownNodes, findPattern]
+  );
+  const findMatchIds = useMemo(() => new Set(findMatches), [findMatches]);
+  const activeFindIndex = findIndex < findMatches.length ? findIndex : -1;
+
+  const goToMatch = useCallback((matchIds: string[], index: number) => {
+    setFindIndex(index);
+    const node = nodes.find(n => n.id === matchIds[index]);
+    if (node) {
+      setViewport(prev => panNodeIntoView(node, prev, canvasSize));
+    }
+  }, [nodes, canvasSize]);
+
+  const handleFindStep = useCallback((offset: 1 | -1) => {
+    const count = findMatches.length;
+    if (count === 0) return;
+    const index = activeFindIndex < 0
+      ? (offset > 0 ? 0 : count - 1)
+      : (activeFindIndex + offset + count) % count;
+    goToMatch(findMatches, index);
+  }, [findMatches, activeFindIndex, goToMatch]);
+
+  // Replaces in the given nodes as a single undo step; returns the updated nodes, or null when nothing changed
+  const replaceInNodes = useCallback((nodeIds: string[], replacement: string): Node[] | null => {
+    if (!findPattern) return null;
+    const ids = new Set(nodeIds);
+    const updatedNodes = nodes.map(node => {
+      if (!ids.has(node.id)) return node;
+      const text = replaceInText(node.text, findPattern, replacement, { regex: findRegex }).trim();
+      // Nodes need some text, so a replacement that would empty one leaves it alone
+      return text && text !== node.text ? withNodeSize({ ...node, text }, nodeWidthLimits) : node;
+    });
+    const commands = diffNodes(nodes, updatedNodes);
+    if (commands.length === 0) return null;
+    execute(commands.length === 1 ? commands[0] : { type: 'batch', commands });
+    return updatedNodes;
+  }, [nodes, findPattern, findRegex, execute, nodeWidthLimits]);
+
+  // Replaces the current match (the first one before stepping) and moves on to the next
+  const handleReplace = useCallback((replacement: string) => {
+    const index = Math.max(activeFindIndex, 0);
+    const nodeId = findMatches[index];
+    const updatedNodes = nodeId ? replaceInNodes([nodeId], replacement) : null;
+    if (!updatedNodes) return;
+
+    const updated = updatedNodes.filter(node => node.id === nodeId);
+    const stillMatches = findMatchingNodes(updated, findPattern).length > 0;
+    const remaining = stillMatches ? findMatches : findMatches.filter(id => id !== nodeId);
+    if (remaining.length === 0) {
+      setFindIndex(-1);
+    } else {
+      goToMatch(remaining, (stillMatches ? index + 1 : index) % remaining.length);
+    }
+  }, [activeFindIndex, findMatches, findPattern, replaceInNodes, goToMatch]);
+
+  const handleReplaceAll = useCallback((replacement: string) => {
+    if (replaceInNodes(findMatches, replacement)) {
+      setFindIndex(-1);
+    }
+  }, [findMatches, replaceInNodes]);
+
+  const selectedNode = selectedNodeId ? themedNodesById.get(selectedNodeId) || null : null;
+  const selectedNodes = nodes.filter(node => selectedNodeIds.includes(node.id));
+  const taskProgress = useMemo(() => getTaskProgress(nodes), [nodes]);
 
   return (
     <AppContainer>
@@ -394,35 +1082,71 @@ function AppContent() {
         <HeaderTitle>🧠 Mind Map Studio</HeaderTitle>
         <HeaderActions>
           {/* Undo/Redo Buttons */}
-          <Button onClick={nodesHistory.undo} disabled={!nodesHistory.canUndo}>
+          <Button onClick={undo} disabled={!history.canUndo} title="Undo (Ctrl+Z)">
             Undo
           </Button>
-          <Button onClick={nodesHistory.redo} disabled={!nodesHistory.canRedo}>
+          <Button onClick={redo} disabled={!history.canRedo} title="Redo (Ctrl+Shift+Z)">
             Redo
           </Button>
           {currentMap && (
             <>
-              <span style={{ color: 'white', fontSize: '0.875rem' }}>
-                {currentMap.title}
+              <span
+                style={{ color: appTheme.colors.headerText, fontSize: '0.875rem', cursor: 'pointer' }}
+                onDoubleClick={handleRenameMap}
+                title="Double-click to rename"
+              >
+                {title}
                 {hasUnsavedChanges && ' *'}
               </span>
               <Button onClick={handleAddNode}>
                 + Add Node
               </Button>
               {selectedNodeId && (
-                <Button onClick={handleAddChildNode}>
+                <Button onClick={() => handleAddChildNode()}>
                   + Add Child
                 </Button>
               )}
               <Button
-                onClick={toggleConnectionMode}
-                style={{
-                  backgroundColor: connectionMode ? '#ef4444' : '#6366f1',
-                  color: 'white'
-                }}
+                onClick={() => setDragSubtrees(!dragSubtrees)}
+                title="Move descendants along when dragging a node (hold Alt to do the opposite)"
               >
-                {connectionMode ? 'Cancel Connect' : '🔗 Connect Nodes'}
+                {dragSubtrees ? '🌳 Drag Subtree: On' : '🌳 Drag Subtree: Off'}
               </Button>
+              <HeaderSelect
+                value={connectionRouting || DEFAULT_CONNECTION_ROUTING}
+                onChange={(e) => handleConnectionRoutingChange(e.target.value as ConnectionRouting)}
+                title="How connection lines are drawn"
+              >
+                {ROUTING_OPTIONS.map(({ routing, label }) => (
+                  <option key={routing} value={routing}>〰 {label} lines</option>
+                ))}
+              </HeaderSelect>
+              <HeaderSelect
+                value={nodeWidth || DEFAULT_NODE_WIDTH}
+                onChange={(e) => handleNodeWidthChange(e.target.value as NodeWidth)}
+                title="Width range nodes grow within before their text wraps"
+              >
+                {NODE_WIDTH_OPTIONS.map(({ nodeWidth: option, label }) => (
+                  <option key={option} value={option}>↔ {label} nodes</option>
+                ))}
+              </HeaderSelect>
+              <ThemeControls
+                theme={mapTheme}
+                customThemes={customThemes}
+                onThemeChange={handleThemeChange}
+                onThemeSave={handleThemeSave}
+                onThemeDelete={handleThemeDelete}
+              />
+              <LayoutControls
+                onApplyLayout={handleApplyLayout}
+                hasSelection={!!selectedNodeId}
+                disabled={nodes.length === 0 || isAnimating || forceLayout.isRunning}
+              />
+              {forceLayout.isRunning && (
+                <Button onClick={forceLayout.stop} title="Stop the layout and keep the current positions">
+                  ⏹ Stop Layout
+                </Button>
+              )}
               <Button onClick={saveCurrentMap} disabled={!hasUnsavedChanges || loading}>
                 {loading ? 'Saving...' : 'Save'}
               </Button>
@@ -437,6 +1161,18 @@ function AppContent() {
           <Button onClick={() => setSidebarOpen(true)}>
             My Maps
           </Button>
+          <HeaderSelect
+            value={appThemePreference}
+            onChange={(e) => setAppThemePreference(e.target.value as AppThemePreference)}
+            title="Color scheme of the app"
+          >
+            {APP_THEME_OPTIONS.map(({ preference, label }) => (
+              <option key={preference} value={preference}>{label}</option>
+            ))}
+          </HeaderSelect>
+          <Button onClick={() => setShowShortcuts(true)} title="Keyboard shortcuts (?)">
+            ⌨️
+          </Button>
           {user && (
             <>
               <Button onClick={() => setShowProfile(!showProfile)}>
@@ -459,26 +1195,11 @@ function AppContent() {
       <MainContent>
         {error && <ErrorMessage data-export-hide>{error}</ErrorMessage>}
 
-        {connectionMode && (
-          <div data-export-hide style={{
-            background: '#10b981',
-            color: 'white',
-            padding: '0.75rem 1rem',
-            textAlign: 'center',
-            fontWeight: '500'
-          }}>
-            {connectingFrom ?
-              '🔗 Click on another node to create a connection' :
-              '🔗 Connection Mode: Click on a node to start connecting'
-            }
-          </div>
-        )}
-
         {!currentMap ? (
           <div style={{
             textAlign: 'center',
             padding: '4rem 2rem',
-            color: 'white'
+            color: appTheme.colors.headerText
           }}>
             <h2>Welcome to Mind Map Studio!</h2>
             <p>Create a new mind map or open an existing one to get started.</p>
@@ -511,18 +1232,87 @@ function AppContent() {
                     lastLoginFormatted={user.lastActivity ? new Date(user.lastActivity).toLocaleDateString('es-ES') : undefined}
                   />
                 )}
-                <CanvasContainer data-export-target="mindmap-canvas">
+                <CanvasContainer data-export-target="mindmap-canvas" ref={canvasContainerRef}>
                   <MindMapCanvas
-                    nodes={nodes}
-                    connections={connections}
-                    selectedNodeId={selectedNodeId}
+                    nodes={canvasNodes}
+                    allNodes={positionedNodes}
+                    taskProgress={taskProgress}
+                    connections={themed.connections}
+                    background={mapTheme.background}
+                    selectedNodeIds={selectedNodeIds}
                     onNodeSelect={handleNodeSelect}
-                    onNodeDrag={handleNodeDrag}
+                    onMarqueeSelect={handleMarqueeSelect}
+                    onNodesDrag={handleNodesDrag}
                     onCanvasClick={handleCanvasClick}
-                    width={canvasBounds.width}
-                    height={canvasBounds.height}
-                    connectionMode={connectionMode}
-                    connectingFrom={connectingFrom}
+                    onToggleCollapse={handleToggleCollapse}
+                    onNodeReparent={handleNodeReparent}
+                    selectedConnection={selectedConnectionKey}
+                    onConnectionSelect={handleConnectionSelect}
+                    dragSubtrees={dragSubtrees}
+                    showGrid={showGrid}
+                    connectionRouting={connectionRouting}
+                    editingNodeId={editingNodeId}
+                    onNodeEditStart={handleNodeEditStart}
+                    onNodeTextCommit={handleNodeTextCommit}
+                    onNodeEditCancel={handleNodeEditCancel}
+                    onImageDrop={handleNodeImageAdd}
+                    onTaskToggle={handleTaskToggle}
+                    dimmedNodeIds={activeTagFilter.display === 'dim' ? filteredOutIds : undefined}
+                    highlightedNodeIds={findMatchIds}
+                    activeHighlightId={activeFindIndex >= 0 ? findMatches[activeFindIndex] : null}
+                    width={canvasSize.width}
+                    height={canvasSize.height}
+                    viewport={viewport}
+                    onViewportChange={setViewport}
+                    onConnectionCreate={handleConnectionCreate}
+                  />
+                  {nodes.length > 0 && (
+                    <Minimap
+                      nodes={shownNodes}
+                      connections={themed.connections}
+                      viewport={viewport}
+                      viewportSize={canvasSize}
+                      onViewportChange={setViewport}
+                    />
+                  )}
+                  {mapTags.length > 0 && (
+                    <TagFilterBar tags={mapTags} filter={activeTagFilter} onFilterChange={setTagFilter} />
+                  )}
+                  {showFind && currentMap && (
+                    <FindReplaceBar
+                      query={findQuery}
+                      regex={findRegex}
+                      invalid={!!findQuery && !findPattern}
+                      matchCount={findMatches.length}
+                      activeIndex={activeFindIndex}
+                      focusRequest={findFocusRequest}
+                      onQueryChange={query => {
+                        setFindQuery(query);
+                        setFindIndex(-1);
+                      }}
+                      onRegexToggle={() => {
+                        setFindRegex(!findRegex);
+                        setFindIndex(-1);
+                      }}
+                      onNext={() => handleFindStep(1)}
+                      onPrevious={() => handleFindStep(-1)}
+                      onReplace={handleReplace}
+                      onReplaceAll={handleReplaceAll}
+                      onClose={() => {
+                        setShowFind(false);
+                        setFindIndex(-1);
+                      }}
+                    />
+                  )}
+                  <ZoomControls
+                    scale={viewport.scale}
+                    onZoomIn={() => handleZoomBy(ZOOM_STEP)}
+                    onZoomOut={() => handleZoomBy(1 / ZOOM_STEP)}
+                    onZoomToFit={handleZoomToFit}
+                    onZoomToSelection={handleZoomToSelection}
+                    hasSelection={selectedNodes.length > 0}
+                    showGrid={showGrid}
+                    onToggleGrid={() => setShowGrid(!showGrid)}
                   />
                 </CanvasContainer>
 
@@ -539,11 +1329,29 @@ function AppContent() {
                 </ConnectionLegend>
 
                 <div data-export-hide style={{ marginTop: '1rem' }}>
-                  <NodeEditorPanel
-                    selectedNode={selectedNode}
-                    onNodeUpdate={handleNodeUpdate}
-                    onNodeDelete={handleNodeDelete}
-                  />
+                  {selectedConnection ? (
+                    <ConnectionEditorPanel
+                      connection={selectedConnection}
+                      nodes={nodes}
+                      onConnectionUpdate={handleConnectionUpdate}
+                      onConnectionDelete={handleConnectionDelete}
+                      onClose={() => setSelectedConnectionKey(null)}
+                    />
+                  ) : (
+                    <NodeEditorPanel
+                      selectedNode={selectedNode}
+                      selectedNodes={selectedNodes}
+                      onNodeUpdate={handleNodeUpdate}
+                      onNodeDelete={handleNodeDelete}
+                      onNodesUpdate={handleNodesUpdate}
+                      onNodesDelete={handleNodesDelete}
+                      onNodesAlign={handleNodesAlign}
+                      onNodesDistribute={handleNodesDistribute}
+                      onNodeImageAdd={handleNodeImageAdd}
+                      taskProgress={selectedNodeId ? taskProgress.get(selectedNodeId) : undefined}
+                      knownTags={knownTags}
+                    />
+                  )}
                 </div>
               </>
             )}
@@ -551,6 +1359,8 @@ function AppContent() {
         )}
       </MainContent>
 
+      {showShortcuts && <ShortcutHelp onClose={() => setShowShortcuts(false)} />}
+
       <MapListSidebar
         data-export-hide
         isOpen={sidebarOpen}
@@ -559,6 +1369,7 @@ function AppContent() {
         onMapSelect={loadMap}
         onMapCreate={createNewMap}
         onMapDelete={deleteMap}
+        onSearchResultSelect={handleSearchResultSelect}
         loading={loading}
         error={error}
       />
@@ -569,9 +1380,11 @@ function AppContent() {
 function App() {
   return (
     <UserProvider>
-      <AuthWrapper>
-        <AppContent />
-      </AuthWrapper>
+      <AppThemeProvider>
+        <AuthWrapper>
+          <AppContent />
+        </AuthWrapper>
+      </AppThemeProvider>
     </UserProvider>
   );
 }
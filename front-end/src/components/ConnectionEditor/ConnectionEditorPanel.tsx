@@ -0,0 +1,157 @@
+import React, { useState, useEffect } from 'react';
+import { useTheme } from 'styled-components';
+import { Connection, ConnectionDirection, ConnectionRouting, Node } from '../../types';
+import { ROUTING_OPTIONS } from '../../utils/connectionRouting';
+import { DIRECTION_OPTIONS, LINE_STYLE_OPTIONS, getConnectionStyle } from '../../utils/connectionStyleUtils';
+import {
+    NodeEditor,
+    NodeEditorTitle,
+    Input,
+    Select,
+    Button,
+    ColorPicker,
+    ColorOption,
+} from '../styled/GlobalStyles';
+
+interface ConnectionEditorPanelProps {
+    connection: Connection;
+    nodes: Node[];
+    onConnectionUpdate: (connection: Connection, updates: Partial<Connection>) => void;
+    onConnectionDelete: (connection: Connection) => void;
+    onClose: () => void;
+}
+
+// Line colors need more contrast against the canvas than node fills
+const lineColors = [
+    '#6b7280', '#10b981', '#3b82f6', '#8b5cf6',
+    '#ec4899', '#ef4444', '#f59e0b', '#111827',
+];
+
+const ConnectionEditorPanel: React.FC<ConnectionEditorPanelProps> = ({
+    connection,
+    nodes,
+    onConnectionUpdate,
+    onConnectionDelete,
+    onClose,
+}) => {
+    const theme = useTheme();
+    const [label, setLabel] = useState('');
+
+    useEffect(() => {
+        setLabel(connection.label || '');
+    }, [connection]);
+
+    const fromNode = nodes.find(node => node.id === connection.from);
+    const toNode = nodes.find(node => node.id === connection.to);
+    const style = getConnectionStyle(connection, connection.type === 'parent-child' || toNode?.parent === connection.from);
+
+    const handleLabelUpdate = () => {
+        if (label.trim() !== (connection.label || '')) {
+            onConnectionUpdate(connection, { label: label.trim() });
+        }
+    };
+
+    const handleDelete = () => {
+        if (window.confirm('Are you sure you want to delete this connection?')) {
+            onConnectionDelete(connection);
+        }
+    };
+
+    const labelStyle: React.CSSProperties = {
+        display: 'block',
+        marginBottom: '0.5rem',
+        fontSize: '0.875rem',
+        fontWeight: '500',
+        color: theme.colors.textSecondary
+    };
+
+    return (
+        <NodeEditor>
+            <NodeEditorTitle>Edit Connection</NodeEditorTitle>
+            <p style={{ color: theme.colors.textMuted, fontSize: '0.875rem', margin: '0 0 1rem 0' }}>
+                {fromNode?.text || '?'} → {toNode?.text || '?'}
+            </p>
+
+            <div style={{ marginBottom: '1rem' }}>
+                <label style={labelStyle}>Label:</label>
+                <Input
+                    type="text"
+                    value={label}
+                    onChange={(e) => setLabel(e.target.value)}
+                    onKeyPress={(e) => e.key === 'Enter' && handleLabelUpdate()}
+                    onBlur={handleLabelUpdate}
+                    placeholder="e.g. causes, depends on..."
+                />
+            </div>
+
+            <div style={{ marginBottom: '1rem' }}>
+                <label style={labelStyle}>Color:</label>
+                <ColorPicker>
+                    {lineColors.map((color) => (
+                        <ColorOption
+                            key={color}
+                            color={color}
+                            isSelected={style.color === color}
+                            onClick={() => onConnectionUpdate(connection, { color })}
+                            title={`Select ${color}`}
+                        />
+                    ))}
+                </ColorPicker>
+            </div>
+
+            <div style={{ marginBottom: '1rem' }}>
+                <label style={labelStyle}>Line:</label>
+                <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: '0.5rem' }}>
+                    {LINE_STYLE_OPTIONS.map(({ lineStyle, label: optionLabel }) => (
+                        <Button
+                            key={lineStyle}
+                            variant="primary"
+                            onClick={() => onConnectionUpdate(connection, { lineStyle })}
+                            style={{ opacity: style.lineStyle === lineStyle ? 1 : 0.5 }}
+                        >
+                            {optionLabel}
+                        </Button>
+                    ))}
+                </div>
+            </div>
+
+            <div>
+                <label style={labelStyle}>Arrows:</label>
+                <Select
+                    value={style.direction}
+                    onChange={(e) => onConnectionUpdate(connection, { direction: e.target.value as ConnectionDirection })}
+                >
+                    {DIRECTION_OPTIONS.map(({ direction, label: optionLabel }) => (
+                        <option key={direction} value={direction}>{optionLabel}</option>
+                    ))}
+                </Select>
+            </div>
+
+            <div>
+                <label style={labelStyle}>Routing:</label>
+                <Select
+                    value={connection.routing || ''}
+                    onChange={(e) => onConnectionUpdate(connection, {
+                        routing: (e.target.value || undefined) as ConnectionRouting | undefined,
+                    })}
+                >
+                    <option value="">Map default</option>
+                    {ROUTING_OPTIONS.map(({ routing, label: optionLabel }) => (
+                        <option key={routing} value={routing}>{optionLabel}</option>
+                    ))}
+                </Select>
+            </div>
+
+            <div style={{ display: 'flex', gap: '0.5rem' }}>
+                <Button variant="primary" onClick={onClose} style={{ flex: 1 }}>
+                    Done
+                </Button>
+                <Button variant="danger" onClick={handleDelete} style={{ flex: 1 }}>
+                    Delete
+                </Button>
+            </div>
+        </NodeEditor>
+    );
+};
+
+export default ConnectionEditorPanel;
@@ -0,0 +1,189 @@
+import React from 'react';
+import styled from 'styled-components';
+
+const FindBarContainer = styled.div`
+  position: absolute;
+  top: 1rem;
+  right: 1rem;
+  display: flex;
+  flex-direction: column;
+  gap: 0.25rem;
+  width: 320px;
+  max-width: calc(100% - 2rem);
+  background: ${({ theme }) => theme.colors.surfaceOverlay};
+  border: 1px solid ${({ theme }) => theme.colors.border};
+  border-radius: 8px;
+  padding: 0.375rem;
+  box-shadow: 0 2px 10px ${({ theme }) => theme.colors.shadow};
+  z-index: 12;
+`;
+
+const FindRow = styled.div`
+  display: flex;
+  gap: 0.25rem;
+  align-items: center;
+`;
+
+const FindInput = styled.input<{ invalid?: boolean }>`
+  flex: 1;
+  min-width: 0;
+  padding: 0.3rem 0.5rem;
+  border: 1px solid ${({ theme, invalid }) => (invalid ? theme.colors.danger : theme.colors.inputBorder)};
+  border-radius: 6px;
+  font-size: 0.8rem;
+  background: ${({ theme }) => theme.colors.surface};
+  color: ${({ theme }) => theme.colors.text};
+
+  &:focus {
+    outline: none;
+    border-color: ${({ theme, invalid }) => (invalid ? theme.colors.danger : theme.colors.primary)};
+  }
+`;
+
+const FindButton = styled.button<{ active?: boolean }>`
+  background: ${({ theme, active }) => (active ? theme.colors.primarySoft : 'none')};
+  border: none;
+  border-radius: 6px;
+  padding: 0.25rem 0.4rem;
+  font-size: 0.8rem;
+  color: ${({ theme, active }) => (active ? theme.colors.primary : theme.colors.textSecondary)};
+  cursor: pointer;
+  white-space: nowrap;
+
+  &:hover:not(:disabled) {
+    background: ${({ theme }) => theme.colors.surfaceHover};
+  }
+
+  &:disabled {
+    color: ${({ theme }) => theme.colors.textDisabled};
+    cursor: default;
+  }
+`;
+
+const MatchCount = styled.span`
+  min-width: 3.5rem;
+  text-align: center;
+  font-size: 0.75rem;
+  color: ${({ theme }) => theme.colors.textMuted};
+`;
+
+interface FindReplaceBarProps {
+    query: string;
+    regex: boolean;
+    invalid: boolean;       // The query is not a valid regular expression
+    matchCount: number;
+    activeIndex: number;    // Position of the current match, -1 before stepping
+    focusRequest: number;   // Changes whenever the search box should take the focus again
+    onQueryChange: (query: string) => void;
+    onRegexToggle: () => void;
+    onNext: () => void;
+    onPrevious: () => void;
+    onReplace: (replacement: string) => void;
+    onReplaceAll: (replacement: string) => void;
+    onClose: () => void;
+}
+
+// Search box over the canvas. Enter steps to the next match, Shift+Enter to the previous one.
+const FindReplaceBar: React.FC<FindReplaceBarProps> = ({
+    query,
+    regex,
+    invalid,
+    matchCount,
+    activeIndex,
+    focusRequest,
+    onQueryChange,
+    onRegexToggle,
+    onNext,
+    onPrevious,
+    onReplace,
+    onReplaceAll,
+    onClose,
+}) => {
+    const [showReplace, setShowReplace] = React.useState(false);
+    const [replacement, setReplacement] = React.useState('');
+    const inputRef = React.useRef<HTMLInputElement>(null);
+
+    React.useEffect(() => {
+        inputRef.current?.focus();
+        inputRef.current?.select();
+    }, [focusRequest]);
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'Escape') {
+            e.preventDefault();
+            onClose();
+        } else if (e.key === 'Enter' && e.currentTarget === inputRef.current) {
+            e.preventDefault();
+            if (e.shiftKey) {
+                onPrevious();
+            } else {
+                onNext();
+            }
+        }
+    };
+
+    const countText = !query
+        ? ''
+        : matchCount === 0
+            ? 'No results'
+            : `${activeIndex >= 0 ? activeIndex + 1 : '–'} of ${matchCount}`;
+
+    return (
+        <FindBarContainer data-export-hide>
+            <FindRow>
+                <FindButton
+                    onClick={() => setShowReplace(!showReplace)}
+                    title={showReplace ? 'Hide replace' : 'Show replace'}
+                >
+                    {showReplace ? '▾' : '▸'}
+                </FindButton>
+                <FindInput
+                    ref={inputRef}
+                    value={query}
+                    invalid={invalid}
+                    onChange={(e) => onQueryChange(e.target.value)}
+                    onKeyDown={handleKeyDown}
+                    placeholder="Find in map"
+                    title={invalid ? 'Invalid regular expression' : undefined}
+                />
+                <FindButton active={regex} onClick={onRegexToggle} title="Use regular expression">
+                    .*
+                </FindButton>
+                <MatchCount>{countText}</MatchCount>
+                <FindButton onClick={onPrevious} disabled={matchCount === 0} title="Previous match (Shift+Enter)">
+                    ↑
+                </FindButton>
+                <FindButton onClick={onNext} disabled={matchCount === 0} title="Next match (Enter)">
+                    ↓
+                </FindButton>
+                <FindButton onClick={onClose} title="Close (Esc)">×</FindButton>
+            </FindRow>
+            {showReplace && (
+                <FindRow>
+                    <FindInput
+                        value={replacement}
+                        onChange={(e) => setReplacement(e.target.value)}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter') {
+                                e.preventDefault();
+                                onReplace(replacement);
+                            } else {
+                                handleKeyDown(e);
+                            }
+                        }}
+                        placeholder={regex ? 'Replace with ($1 for groups)' : 'Replace with'}
+                        style={{ marginLeft: '1.6rem' }}
+                    />
+                    <FindButton onClick={() => onReplace(replacement)} disabled={matchCount === 0} title="Replace the current match">
+                        Replace
+                    </FindButton>
+                    <FindButton onClick={() => onReplaceAll(replacement)} disabled={matchCount === 0} title="Replace all matches">
+                        All
+                    </FindButton>
+                </FindRow>
+            )}
+        </FindBarContainer>
+    );
+};
+
+export default FindReplaceBar;
@@ -0,0 +1,43 @@
+import React from 'react';
+import { LayoutType, LAYOUT_OPTIONS } from '../../utils/layoutUtils';
+import { HeaderSelect } from '../styled/GlobalStyles';
+
+interface LayoutControlsProps {
+    onApplyLayout: (type: LayoutType, subtreeOnly: boolean) => void;
+    hasSelection: boolean;
+    disabled?: boolean;
+}
+
+const LayoutControls: React.FC<LayoutControlsProps> = ({
+    onApplyLayout,
+    hasSelection,
+    disabled = false,
+}) => {
+    const handleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        // Values look like "tree:map" or "radial:subtree"
+        const [type, scope] = e.target.value.split(':');
+        if (type) {
+            onApplyLayout(type as LayoutType, scope === 'subtree');
+        }
+    };
+
+    return (
+        <HeaderSelect value="" onChange={handleChange} disabled={disabled} title="Arrange nodes automatically">
+            <option value="" disabled>🧭 Auto Layout</option>
+            <optgroup label="Whole map">
+                {LAYOUT_OPTIONS.map(({ type, label }) => (
+                    <option key={type} value={`${type}:map`}>{label}</option>
+                ))}
+            </optgroup>
+            {hasSelection && (
+                <optgroup label="Selected subtree">
+                    {LAYOUT_OPTIONS.map(({ type, label }) => (
+                        <option key={type} value={`${type}:subtree`}>{label}</option>
+                    ))}
+                </optgroup>
+            )}
+        </HeaderSelect>
+    );
+};
+
+export default LayoutControls;
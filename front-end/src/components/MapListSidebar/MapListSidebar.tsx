@@ -1,7 +1,9 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import styled from 'styled-components';
 import { MindMap } from '../../types';
 import { useUser } from '../../contexts/UserContext';
+import { localStorageService } from '../../services/localStorage';
+import { MapSearchEntry, SearchSnippet, buildMapSearchIndex, getSnippet, searchMaps } from '../../utils/searchUtils';
 import {
     Sidebar,
     SidebarHeader,
@@ -23,7 +25,7 @@ const CategorySection = styled.div`
 `;
 
 const CategoryTitle = styled.h3`
-  color: #374151;
+  color: ${({ theme }) => theme.colors.textSecondary};
   font-size: 0.875rem;
   font-weight: 600;
   text-transform: uppercase;
@@ -52,14 +54,14 @@ const OwnerBadge = styled.span<{ isOwner: boolean; isPublic?: boolean }>`
 
 const EmptyCategory = styled.div`
   text-align: center;
-  color: #9ca3af;
+  color: ${({ theme }) => theme.colors.textDisabled};
   padding: 1rem;
   font-size: 0.875rem;
   font-style: italic;
 `;
 
 const DeleteButton = styled.button`
-  background: #ef4444;
+  background: ${({ theme }) => theme.colors.danger};
   color: white;
   border: none;
   border-radius: 4px;
@@ -73,9 +75,9 @@ const DeleteButton = styled.button`
   gap: 0.25rem;
   
   &:hover {
-    background: #dc2626;
+    background: ${({ theme }) => theme.colors.dangerHover};
     transform: translateY(-1px);
-    box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1);
+    box-shadow: 0 2px 4px ${({ theme }) => theme.colors.shadow};
   }
   
   &:focus {
@@ -111,6 +113,29 @@ const MapCardStyled = styled(MapCard)`
   }
 `;
 
+const SearchResultNode = styled.button`
+  display: block;
+  width: 100%;
+  background: none;
+  border: none;
+  border-radius: 6px;
+  padding: 0.375rem 0.5rem;
+  text-align: left;
+  font-size: 0.85rem;
+  color: ${({ theme }) => theme.colors.textSecondary};
+  cursor: pointer;
+
+  &:hover {
+    background: ${({ theme }) => theme.colors.surfaceHover};
+  }
+`;
+
+const SearchMatch = styled.mark`
+  background: ${({ theme }) => theme.canvas.searchHighlight};
+  color: inherit;
+  border-radius: 2px;
+`;
+
 interface MapListSidebarProps {
     isOpen: boolean;
     onClose: () => void;
@@ -118,6 +143,7 @@ interface MapListSidebarProps {
     onMapSelect: (map: MindMap) => void;
     onMapCreate: (title: string) => void;
     onMapDelete: (mapId: string) => void;
+    onSearchResultSelect: (mapId: string, nodeId: string | null) => void; // nodeId is null for title matches
     loading: boolean;
     error: string | null;
 }
@@ -129,6 +155,7 @@ const MapListSidebar: React.FC<MapListSidebarProps> = ({
     onMapSelect,
     onMapCreate,
     onMapDelete,
+    onSearchResultSelect,
     loading,
     error,
 }) => {
@@ -136,6 +163,18 @@ const MapListSidebar: React.FC<MapListSidebarProps> = ({
     const [newMapTitle, setNewMapTitle] = useState('');
     const [creating, setCreating] = useState(false);
     const [successMessage, setSuccessMessage] = useState('');
+    const [searchQuery, setSearchQuery] = useState('');
+
+    const [searchIndex, setSearchIndex] = useState<MapSearchEntry[]>([]);
+
+    // Searches what is saved, so the index is rebuilt whenever the maps are reloaded
+    useEffect(() => {
+        if (isOpen) {
+            setSearchIndex(buildMapSearchIndex(localStorageService.getAllMaps()));
+        }
+    }, [isOpen, maps]);
+    const searchResults = useMemo(() => searchMaps(searchIndex, searchQuery), [searchIndex, searchQuery]);
+    const searchTerm = searchQuery.trim().split(/\s+/)[0];
 
     // Categorize maps
     const myMaps = maps.filter(map => map.user === user?.id);
@@ -224,6 +263,41 @@ const MapListSidebar: React.FC<MapListSidebarProps> = ({
         );
     };
 
+    const renderSnippet = (snippet: SearchSnippet) => (
+        <>
+            {snippet.before}
+            <SearchMatch>{snippet.match}</SearchMatch>
+            {snippet.after}
+        </>
+    );
+
+    const renderSearchResults = () => {
+        if (searchResults.length === 0) {
+            return <EmptyCategory>No hay resultados para "{searchQuery.trim()}"</EmptyCategory>;
+        }
+
+        return searchResults.map(result => (
+            <CategorySection key={result.mapId}>
+                <MapCardStyled onClick={() => onSearchResultSelect(result.mapId, null)}>
+                    <MapTitle>
+                        {result.titleMatch ? renderSnippet(getSnippet(result.mapTitle, searchTerm, 60)) : result.mapTitle}
+                    </MapTitle>
+                    <MapMeta>
+                        <span>{result.nodes.length} {result.nodes.length === 1 ? 'nodo coincide' : 'nodos coinciden'}</span>
+                    </MapMeta>
+                </MapCardStyled>
+                {result.nodes.map(node => (
+                    <SearchResultNode
+                        key={node.nodeId}
+                        onClick={() => onSearchResultSelect(result.mapId, node.nodeId)}
+                    >
+                        {renderSnippet(node.snippet)}
+                    </SearchResultNode>
+                ))}
+            </CategorySection>
+        ));
+    };
+
     const formatDate = (dateString: string) => {
         return new Date(dateString).toLocaleDateString('es-ES', {
             year: 'numeric',
@@ -241,6 +315,14 @@ const MapListSidebar: React.FC<MapListSidebarProps> = ({
                 <CloseButton onClick={onClose}>&times;</CloseButton>
             </SidebarHeader>
 
+            {/* Search every map */}
+            <Input
+                type="search"
+                placeholder="Buscar en todos los mapas..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+            />
+
             {/* Create new map section */}
             <div style={{ marginBottom: '2rem' }}>
                 <Input
@@ -264,15 +346,17 @@ const MapListSidebar: React.FC<MapListSidebarProps> = ({
             {error && <ErrorMessage>{error}</ErrorMessage>}
             {successMessage && <SuccessMessage>{successMessage}</SuccessMessage>}
 
-            {/* Maps list */}
+            {/* Search results replace the maps list while searching */}
             {loading ? (
                 <LoadingSpinner />
+            ) : searchTerm ? (
+                <div>{renderSearchResults()}</div>
             ) : (
                 <div>
                     {maps.length === 0 ? (
-                        <div style={{ textAlign: 'center', color: '#6b7280', padding: '2rem' }}>
+                        <EmptyCategory style={{ padding: '2rem', fontStyle: 'normal' }}>
                             ¡No se encontraron mapas mentales. Crea tu primero arriba!
-                        </div>
+                        </EmptyCategory>
                     ) : (
                         <>
                             {user && myMaps.length > 0 && renderMapCategory(myMaps, 'Mis mapas mentales')}
@@ -0,0 +1,120 @@
+import React from 'react';
+import styled from 'styled-components';
+
+const EditorTextArea = styled.textarea`
+  position: absolute;
+  box-sizing: border-box;
+  margin: 0;
+  padding: 4px 8px;
+  border: 2px solid ${({ theme }) => theme.canvas.selection};
+  border-radius: 6px;
+  background: ${({ theme }) => theme.canvas.nodeFill};
+  font-family: Arial, sans-serif;
+  line-height: 1.2;
+  resize: none;
+  outline: none;
+  overflow: hidden;
+  box-shadow: 0 0 0 3px ${({ theme }) => theme.colors.focusRing}, 0 4px 12px ${({ theme }) => theme.colors.shadow};
+  z-index: 20;
+`;
+
+interface InlineTextEditorProps {
+    initialText: string;
+    x: number;
+    y: number;
+    width: number;
+    minHeight: number;
+    fontSize: number;
+    fontWeight?: 'normal' | 'bold';
+    fontStyle?: 'normal' | 'italic';
+    textAlign?: 'left' | 'center' | 'right';
+    textColor?: string;
+    backgroundColor?: string;
+    onCommit: (text: string) => void;
+    onCancel: () => void;
+}
+
+// Multi-line text editor laid over a canvas node. Enter commits (Shift+Enter adds
+// a line break), Escape cancels and clicking elsewhere commits.
+const InlineTextEditor: React.FC<InlineTextEditorProps> = ({
+    initialText,
+    x,
+    y,
+    width,
+    minHeight,
+    fontSize,
+    fontWeight = 'normal',
+    fontStyle = 'normal',
+    textAlign = 'left',
+    textColor = '#1f2937',
+    backgroundColor,
+    onCommit,
+    onCancel,
+}) => {
+    const [text, setText] = React.useState(initialText);
+    const textAreaRef = React.useRef<HTMLTextAreaElement>(null);
+    const finished = React.useRef(false);
+
+    React.useEffect(() => {
+        const textArea = textAreaRef.current;
+        if (textArea) {
+            textArea.focus();
+            textArea.select();
+        }
+    }, []);
+
+    // Grow with the content so every line stays visible while typing
+    React.useLayoutEffect(() => {
+        const textArea = textAreaRef.current;
+        if (textArea) {
+            textArea.style.height = 'auto';
+            textArea.style.height = `${Math.max(minHeight, textArea.scrollHeight)}px`;
+        }
+    }, [text, minHeight]);
+
+    const finish = (commit: boolean) => {
+        if (finished.current) return;
+        finished.current = true;
+        if (commit) {
+            onCommit(text);
+        } else {
+            onCancel();
+        }
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        // Keep canvas shortcuts from reacting to keys typed here
+        e.stopPropagation();
+        if (e.key === 'Enter' && !e.shiftKey) {
+            e.preventDefault();
+            finish(true);
+        } else if (e.key === 'Escape') {
+            e.preventDefault();
+            finish(false);
+        }
+    };
+
+    return (
+        <EditorTextArea
+            ref={textAreaRef}
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            onKeyDown={handleKeyDown}
+            onBlur={() => finish(true)}
+            style={{
+                left: x,
+                top: y,
+                width,
+                minHeight,
+                fontSize,
+                fontWeight,
+                fontStyle,
+                textAlign,
+                color: textColor,
+                background: backgroundColor,
+            }}
+        />
+    );
+};
+
+export default InlineTextEditor;
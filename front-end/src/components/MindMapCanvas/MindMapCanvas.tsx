@@ -1,196 +1,1233 @@
 import React from 'react';
-import { Stage, Layer, Rect, Text, Line, Circle } from 'react-konva';
-import { Node, Connection } from '../../types';
+import { Stage, Layer, Group, Rect, Text, Line, Arrow, Circle, Ellipse, Shape } from 'react-konva';
+import { useTheme } from 'styled-components';
+import { Node, NodePosition, Connection, ConnectionRouting, Viewport } from '../../types';
+import { ZOOM_STEP, zoomAtPoint, mapToScreen, screenToMap } from '../../utils/viewportUtils';
+import {
+    getNodeSize,
+    getNodesInRect,
+    canReparent,
+    isValidConnection,
+    getHiddenNodeIds,
+    organizeHierarchy,
+    findDescendants,
+} from '../../utils/mindMapUtils';
+import { DEFAULT_NODE_SIZE_OPTIONS, measureTextWidth } from '../../utils/nodeSizeUtils';
+import { NodeStyle, getFontStyle, getNodeLabel, getNodeStyle, getReadableTextColor, getTextArea } from '../../utils/nodeStyleUtils';
+import { toSafeUrl } from '../../utils/markdownUtils';
+import { IMAGE_GAP, isImageFile } from '../../utils/imageUtils';
+import {
+    TaskProgress,
+    formatDueDate,
+    getPriorityColor,
+    getProgressPercent,
+    getTaskProgress,
+    getToday,
+    isTaskOverdue,
+} from '../../utils/taskUtils';
+import {
+    GRID_SIZE,
+    SNAP_DISTANCE,
+    SnapGuide,
+    snapToGrid,
+    getNodeBox,
+    unionBoxes,
+    computeSmartGuides,
+} from '../../utils/snapUtils';
+import { DEFAULT_CONNECTION_ROUTING, clipToBorder, routeConnection } from '../../utils/connectionRouting';
+import { DASH_PATTERNS, getConnectionStyle } from '../../utils/connectionStyleUtils';
+import InlineTextEditor from './InlineTextEditor';
+import NotePopover from './NotePopover';
+import NodeImage from './NodeImage';
+
+const { paddingX, paddingY, fontFamily, lineHeight } = DEFAULT_NODE_SIZE_OPTIONS;
+const DIMMED_OPACITY = 0.2;
+// Pixels the pointer has to move before pressing on empty space pans instead of clicking
+const PAN_DRAG_DISTANCE = 4;
+
+// Puffy outline for cloud-shaped nodes: bumps along each side of the box
+const drawCloud = (context: any, shape: any) => {
+    const width = shape.width();
+    const height = shape.height();
+    const bumpsX = Math.max(2, Math.round(width / 40));
+    const bumpsY = Math.max(1, Math.round(height / 40));
+    const stepX = width / bumpsX;
+    const stepY = height / bumpsY;
+
+    context.beginPath();
+    context.moveTo(0, 0);
+    for (let i = 0; i < bumpsX; i++) {
+        context.quadraticCurveTo(stepX * (i + 0.5), -stepY * 0.4, stepX * (i + 1), 0);
+    }
+    for (let i = 0; i < bumpsY; i++) {
+        context.quadraticCurveTo(width + stepX * 0.3, stepY * (i + 0.5), width, stepY * (i + 1));
+    }
+    for (let i = bumpsX; i > 0; i--) {
+        context.quadraticCurveTo(stepX * (i - 0.5), height + stepY * 0.4, stepX * (i - 1), height);
+    }
+    for (let i = bumpsY; i > 0; i--) {
+        context.quadraticCurveTo(-stepX * 0.3, stepY * (i - 0.5), 0, stepY * (i - 1));
+    }
+    context.closePath();
+    context.fillStrokeShape(shape);
+};
+
+// Outline of a node in its shape; selection and drop highlights replace the border
+const renderNodeShape = (
+    style: NodeStyle,
+    width: number,
+    height: number,
+    fill: string,
+    stroke: string,
+    strokeWidth: number
+) => {
+    const common = {
+        fill,
+        stroke,
+        strokeWidth,
+        shadowColor: 'rgba(0, 0, 0, 0.1)',
+        shadowOffsetY: 2,
+        shadowBlur: 4,
+    };
+
+    switch (style.shape) {
+        case 'rectangle':
+            return <Rect width={width} height={height} {...common} />;
+        case 'pill':
+            return <Rect width={width} height={height} cornerRadius={height / 2} {...common} />;
+        case 'ellipse':
+            return <Ellipse x={width / 2} y={height / 2} radiusX={width / 2} radiusY={height / 2} {...common} />;
+        case 'diamond':
+            return (
+                <Line
+                    points={[width / 2, 0, width, height / 2, width / 2, height, 0, height / 2]}
+                    closed
+                    {...common}
+                />
+            );
+        case 'cloud':
+            return <Shape width={width} height={height} sceneFunc={drawCloud} {...common} />;
+        case 'underline':
+            // The transparent box keeps the whole node clickable
+            return (
+                <>
+                    <Rect width={width} height={height} fill="transparent" />
+                    <Line points={[0, height, width, height]} stroke={stroke} strokeWidth={Math.max(strokeWidth, 2)} />
+                </>
+            );
+        case 'rounded':
+        default:
+            return <Rect width={width} height={height} cornerRadius={6} {...common} />;
+    }
+};
 
 interface MindMapCanvasProps {
     nodes: Node[];
+    allNodes?: Node[]; // The whole map when nodes is filtered; subtrees follow it
+    taskProgress?: Map<string, TaskProgress>; // Roll-ups over the whole map, computed here if not given
     connections: Connection[];
-    selectedNodeId: string | null;
-    onNodeSelect: (nodeId: string | null) => void;
-    onNodeDrag: (nodeId: string, x: number, y: number) => void;
+    selectedNodeIds: string[];
+    onNodeSelect: (nodeId: string | null, additive?: boolean) => void;
+    onMarqueeSelect: (nodeIds: string[], additive: boolean) => void;
+    onNodesDrag: (positions: NodePosition[]) => void;
     onCanvasClick: (x: number, y: number) => void;
+    onToggleCollapse?: (nodeId: string) => void;
+    onNodeReparent?: (nodeId: string, newParentId: string) => void;
+    dragSubtrees?: boolean; // Dragging a node moves its descendants too; Alt inverts this while dragging
+    showGrid?: boolean;     // Draw a background grid and snap dragged nodes to it
+    background?: string;
+    connectionRouting?: ConnectionRouting; // Map default, connections may override it
+    selectedConnection?: { from: string; to: string } | null;
+    onConnectionSelect?: (connection: Connection) => void;
+    onConnectionCreate?: (fromNodeId: string, toNodeId: string) => void; // Shows drag-to-connect handles
+    editingNodeId?: string | null;
+    onNodeEditStart?: (nodeId: string) => void;
+    onNodeTextCommit?: (nodeId: string, text: string) => void;
+    onNodeEditCancel?: () => void;
+    onImageDrop?: (nodeId: string, file: File) => void; // Image files dropped onto a node
+    onTaskToggle?: (nodeId: string) => void;
+    dimmedNodeIds?: Set<string>; // Drawn faded, e.g. nodes a tag filter does not match
+    highlightedNodeIds?: Set<string>; // Find matches, marked behind the node
+    activeHighlightId?: string | null; // The match the find box is currently on
     width: number;
     height: number;
-    connectionMode?: boolean;
-    connectingFrom?: string | null;
+    viewport: Viewport;
+    onViewportChange: (viewport: Viewport) => void;
 }
 
+// Where the drag-to-connect handles sit on a node: the middle of each edge. The right
+// one is left out when the collapse toggle occupies that spot.
+const getHandlePoints = (width: number, height: number, hasToggle: boolean) => {
+    const points = [
+        { x: width / 2, y: 0 },
+        { x: width / 2, y: height },
+        { x: 0, y: height / 2 },
+    ];
+    if (!hasToggle) points.push({ x: width, y: height / 2 });
+    return points;
+};
+
 const MindMapCanvas: React.FC<MindMapCanvasProps> = ({
     nodes,
+    allNodes = nodes,
+    taskProgress: givenTaskProgress,
     connections,
-    selectedNodeId,
+    selectedNodeIds,
     onNodeSelect,
-    onNodeDrag,
+    onMarqueeSelect,
+    onNodesDrag,
     onCanvasClick,
+    onToggleCollapse,
+    onNodeReparent,
+    dragSubtrees = true,
+    showGrid = false,
+    background,
+    connectionRouting = DEFAULT_CONNECTION_ROUTING,
+    selectedConnection = null,
+    onConnectionSelect,
+    onConnectionCreate,
+    editingNodeId = null,
+    onNodeEditStart,
+    onNodeTextCommit,
+    onNodeEditCancel,
+    onImageDrop,
+    onTaskToggle,
+    dimmedNodeIds,
+    highlightedNodeIds,
+    activeHighlightId = null,
     width,
     height,
-    connectionMode = false,
-    connectingFrom = null,
+    viewport,
+    onViewportChange,
 }) => {
-    const getNodeById = (id: string) => nodes.find(node => node.id === id);
+    const { canvas: canvasColors } = useTheme();
+    // Descendants of collapsed nodes are not drawn, nor are their connections
+    const hiddenIds = getHiddenNodeIds(allNodes);
+    const visibleNodes = hiddenIds.size > 0 ? nodes.filter(node => !hiddenIds.has(node.id)) : nodes;
+    const { children } = organizeHierarchy(allNodes);
+    const taskProgress = givenTaskProgress || getTaskProgress(allNodes);
+    const today = getToday();
+    const nodesById = new Map(visibleNodes.map(node => [node.id, node]));
+    const getNodeById = (id: string) => nodesById.get(id);
     const stageRef = React.useRef<any>(null);
+    // Takes keyboard focus when the canvas is clicked, so canvas shortcuts like Tab apply only then
+    const containerRef = React.useRef<HTMLDivElement>(null);
+    const lastPinch = React.useRef<{ distance: number; center: { x: number; y: number } } | null>(null);
+    const dragStart = React.useRef<{
+        nodeId: string;
+        x: number;
+        y: number;
+        nodeIds: Set<string>;
+        multiSelection: boolean;
+    } | null>(null);
+    const marqueeAdditive = React.useRef(false);
+    const suppressClick = React.useRef(false);
+    const [dragState, setDragState] = React.useState<{ nodeIds: Set<string>; dx: number; dy: number } | null>(null);
+    const [marquee, setMarquee] = React.useState<{ x: number; y: number; width: number; height: number } | null>(null);
+    const [dropTarget, setDropTarget] = React.useState<{ nodeId: string; valid: boolean } | null>(null);
+    const [guides, setGuides] = React.useState<SnapGuide[]>([]);
+    const [hoveredNodeId, setHoveredNodeId] = React.useState<string | null>(null);
+    // Node whose note popover is open, from hovering (or tapping) its note indicator
+    const [noteNodeId, setNoteNodeId] = React.useState<string | null>(null);
+    // Rubber-band line from a connection handle to the pointer, in map coordinates
+    const [connectDrag, setConnectDrag] = React.useState<{ fromId: string; x: number; y: number } | null>(null);
+    const connectFromId = connectDrag ? connectDrag.fromId : null;
+
+    const selectedIds = new Set(selectedNodeIds);
+
+    // Unstyled nodes take their colors from the app theme; text on a fill of their own stays readable
+    const getThemedNodeStyle = (node: Node): NodeStyle => getNodeStyle(node, {
+        borderColor: canvasColors.nodeStroke,
+        textColor: node.color ? getReadableTextColor(node.color) : canvasColors.nodeText,
+    });
+
+    // Nodes being dragged are drawn at their live position so connections follow them
+    const getDisplayPosition = (node: Node) => {
+        if (dragState && dragState.nodeIds.has(node.id)) {
+            return { x: node.x + dragState.dx, y: node.y + dragState.dy };
+        }
+        return { x: node.x, y: node.y };
+    };
+
+    // Node under the pointer that the dragged node would be moved under if dropped now.
+    // Only single nodes can be reparented; a dragged multi-selection just moves.
+    const findDropTarget = (e: any): { nodeId: string; valid: boolean } | null => {
+        const start = dragStart.current;
+        if (!start || !onNodeReparent || start.multiSelection) return null;
+        const pointer = e.target.getStage()?.getRelativePointerPosition();
+        if (!pointer) return null;
+
+        const target = getNodesInRect(visibleNodes, { x: pointer.x, y: pointer.y, width: 0, height: 0 })
+            .filter(node => !start.nodeIds.has(node.id))
+            .pop(); // Topmost, drawn last
+        if (!target) return null;
+        return { nodeId: target.id, valid: canReparent(start.nodeId, target.id, allNodes) };
+    };
+
+    // Adjust a drag so the moved nodes line up with other nodes (shown as guides),
+    // or else with the grid when it is on. Returns the snapped position of the dragged node.
+    const snapDrag = (x: number, y: number): { x: number; y: number; guides: SnapGuide[] } => {
+        const start = dragStart.current;
+        if (!start) return { x, y, guides: [] };
+        const dx = x - start.x;
+        const dy = y - start.y;
+
+        const moving = unionBoxes(visibleNodes
+            .filter(node => start.nodeIds.has(node.id))
+            .map(node => ({ ...getNodeBox(node), x: node.x + dx, y: node.y + dy })));
+        const others = visibleNodes.filter(node => !start.nodeIds.has(node.id)).map(getNodeBox);
+        const snap = moving
+            ? computeSmartGuides(moving, others, SNAP_DISTANCE / viewport.scale)
+            : { dx: null, dy: null, guides: [] };
+
+        return {
+            x: snap.dx !== null ? x + snap.dx : showGrid ? snapToGrid(x) : x,
+            y: snap.dy !== null ? y + snap.dy : showGrid ? snapToGrid(y) : y,
+            guides: snap.guides,
+        };
+    };
+
+    const handleConnectStart = (e: any, nodeId: string) => {
+        // Keep the node and the stage from starting a drag of their own
+        e.cancelBubble = true;
+        const pos = e.target.getStage()?.getRelativePointerPosition();
+        if (!pos) return;
+        setConnectDrag({ fromId: nodeId, x: pos.x, y: pos.y });
+    };
+
+    // Image files dragged in from outside the browser highlight the node they would land on
+    const findNodeAtEvent = (e: React.DragEvent) => {
+        const stage = stageRef.current;
+        if (!stage) return undefined;
+        stage.setPointersPositions(e.nativeEvent);
+        const pos = stage.getRelativePointerPosition();
+        return pos ? getNodesInRect(visibleNodes, { x: pos.x, y: pos.y, width: 0, height: 0 }).pop() : undefined;
+    };
+
+    const handleFileDragOver = (e: React.DragEvent) => {
+        if (!onImageDrop || !Array.from(e.dataTransfer.types).includes('Files')) return;
+        e.preventDefault();
+        const node = findNodeAtEvent(e);
+        e.dataTransfer.dropEffect = node ? 'copy' : 'none';
+        setDropTarget(node ? { nodeId: node.id, valid: true } : null);
+    };
+
+    const handleFileDrop = (e: React.DragEvent) => {
+        if (!onImageDrop) return;
+        e.preventDefault();
+        setDropTarget(null);
+        const node = findNodeAtEvent(e);
+        const file = Array.from(e.dataTransfer.files).find(isImageFile);
+        if (node && file) {
+            onImageDrop(node.id, file);
+        }
+    };
+
+    // While a connection is dragged the pointer is followed across the whole window, so
+    // releasing it outside the canvas or pressing Escape cancels cleanly
+    React.useEffect(() => {
+        const stage = stageRef.current;
+        if (!connectFromId || !stage) return;
+
+        const hidden = getHiddenNodeIds(nodes);
+        const candidates = nodes.filter(node => !hidden.has(node.id) && node.id !== connectFromId);
+        let target: { nodeId: string; valid: boolean } | null = null;
+
+        const finish = () => {
+            setConnectDrag(null);
+            setDropTarget(null);
+        };
+        const handleMove = (e: MouseEvent | TouchEvent) => {
+            stage.setPointersPositions(e);
+            const pos = stage.getRelativePointerPosition();
+            if (!pos) return;
+            const node = getNodesInRect(candidates, { x: pos.x, y: pos.y, width: 0, height: 0 }).pop();
+            target = node
+                ? { nodeId: node.id, valid: isValidConnection(connectFromId, node.id, connections) }
+                : null;
+            setConnectDrag({ fromId: connectFromId, x: pos.x, y: pos.y });
+            setDropTarget(target);
+        };
+        const handleUp = () => {
+            // Dropping on empty space or on a node that cannot be connected does nothing
+            if (target && target.valid) {
+                onConnectionCreate?.(connectFromId, target.nodeId);
+            }
+            finish();
+        };
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key !== 'Escape') return;
+            e.stopPropagation();
+            finish();
+        };
+
+        window.addEventListener('mousemove', handleMove);
+        window.addEventListener('touchmove', handleMove);
+        window.addEventListener('mouseup', handleUp);
+        window.addEventListener('touchend', handleUp);
+        window.addEventListener('keydown', handleKeyDown, true);
+        return () => {
+            window.removeEventListener('mousemove', handleMove);
+            window.removeEventListener('touchmove', handleMove);
+            window.removeEventListener('mouseup', handleUp);
+            window.removeEventListener('touchend', handleUp);
+            window.removeEventListener('keydown', handleKeyDown, true);
+        };
+    }, [connectFromId, nodes, connections, onConnectionCreate]);
 
     const handleStageClick = (e: any) => {
-        // Check if clicked on empty space
-        if (e.target === e.target.getStage()) {
-            const pos = e.target.getStage().getPointerPosition();
-            onCanvasClick(pos.x, pos.y);
+        // The click that ends a marquee selection must not clear it again
+        if (suppressClick.current) {
+            suppressClick.current = false;
+            return;
+        }
+        // Clicking empty space creates a node there, in map coordinates, and clears the selection
+        const stage = e.target.getStage();
+        if (e.target === stage) {
+            const pos = stage.getRelativePointerPosition();
+            if (pos) {
+                onCanvasClick(pos.x, pos.y);
+            }
             onNodeSelect(null);
         }
     };
 
-    const renderConnections = () => {
-        return connections.map((connection, index) => {
+    const handleStageMouseDown = (e: any) => {
+        containerRef.current?.focus({ preventScroll: true });
+        const stage = e.target.getStage();
+        if (e.target !== stage) return;
+
+        // Shift/Ctrl + drag on empty space draws a selection marquee instead of panning
+        const { shiftKey, ctrlKey, metaKey } = e.evt;
+        if (!shiftKey && !ctrlKey && !metaKey) return;
+
+        const pos = stage.getRelativePointerPosition();
+        if (!pos) return;
+        stage.draggable(false);
+        marqueeAdditive.current = ctrlKey || metaKey;
+        setMarquee({ x: pos.x, y: pos.y, width: 0, height: 0 });
+    };
+
+    const handleStageMouseMove = (e: any) => {
+        if (!marquee) return;
+        const pos = e.target.getStage().getRelativePointerPosition();
+        if (!pos) return;
+        setMarquee({ ...marquee, width: pos.x - marquee.x, height: pos.y - marquee.y });
+    };
+
+    const handleStageMouseUp = () => {
+        if (!marquee) return;
+        const selected = getNodesInRect(visibleNodes, marquee);
+        onMarqueeSelect(selected.map(node => node.id), marqueeAdditive.current);
+        suppressClick.current = true;
+        setMarquee(null);
+    };
+
+    const handleWheel = (e: any) => {
+        e.evt.preventDefault();
+        const stage = e.target.getStage();
+        const pointer = stage.getPointerPosition();
+        if (!pointer) return;
+
+        // One zoom step per mouse wheel notch; trackpad pinch gestures arrive as
+        // wheel events with ctrlKey set and much smaller deltas
+        const factor = Math.pow(ZOOM_STEP, -e.evt.deltaY / (e.evt.ctrlKey ? 10 : 100));
+        onViewportChange(zoomAtPoint(viewport, pointer, viewport.scale * factor));
+    };
+
+    const handleStageDrag = (e: any) => {
+        // Only panning drags of the stage itself; node drags bubble up here too
+        if (e.target !== e.target.getStage()) return;
+        onViewportChange({ ...viewport, x: e.target.x(), y: e.target.y() });
+    };
+
+    const handleTouchMove = (e: any) => {
+        const touches = e.evt.touches;
+        if (touches.length !== 2) return;
+        e.evt.preventDefault();
+
+        const stage = e.target.getStage();
+        if (stage.isDragging()) {
+            stage.stopDrag();
+        }
+
+        const rect = stage.container().getBoundingClientRect();
+        const p1 = { x: touches[0].clientX - rect.left, y: touches[0].clientY - rect.top };
+        const p2 = { x: touches[1].clientX - rect.left, y: touches[1].clientY - rect.top };
+        const center = { x: (p1.x + p2.x) / 2, y: (p1.y + p2.y) / 2 };
+        const distance = Math.hypot(p2.x - p1.x, p2.y - p1.y);
+
+        const previous = lastPinch.current;
+        lastPinch.current = { distance, center };
+        if (!previous || previous.distance === 0) return;
+
+        // Zoom around the pinch center, then follow its movement to pan
+        const zoomed = zoomAtPoint(viewport, previous.center, viewport.scale * (distance / previous.distance));
+        onViewportChange({
+            ...zoomed,
+            x: zoomed.x + center.x - previous.center.x,
+            y: zoomed.y + center.y - previous.center.y,
+        });
+    };
+
+    const handleTouchEnd = () => {
+        lastPinch.current = null;
+    };
+
+    const isSameConnection = (a: { from: string; to: string } | null, b: Connection) =>
+        !!a && a.from === b.from && a.to === b.to;
+
+    // Connections between visible nodes together with their routes, shared by lines and labels
+    const routedConnections = connections
+        .map((connection, index) => {
             const fromNode = getNodeById(connection.from);
             const toNode = getNodeById(connection.to);
-
             if (!fromNode || !toNode) return null;
 
-            // Determine if this is a parent-child connection
-            const isParentChild = connection.type === 'parent-child' ||
-                toNode.parent === fromNode.id;
+            const route = routeConnection(
+                { ...getDisplayPosition(fromNode), ...getNodeSize(fromNode) },
+                { ...getDisplayPosition(toNode), ...getNodeSize(toNode) },
+                connection.routing || connectionRouting
+            );
+            // Older maps may lack the type, so the hierarchy decides as well
+            const isParentChild = connection.type === 'parent-child' || toNode.parent === fromNode.id;
+            const dimmed = !!dimmedNodeIds && (dimmedNodeIds.has(fromNode.id) || dimmedNodeIds.has(toNode.id));
+            return { connection, index, route, dimmed, style: getConnectionStyle(connection, isParentChild, {
+                parentChild: canvasColors.parentChildConnection,
+                regular: canvasColors.regularConnection,
+            }) };
+        })
+        .filter((routed): routed is NonNullable<typeof routed> => routed !== null);
 
-            // Different styles for different connection types
-            const lineStyle = isParentChild ? {
-                stroke: "#10b981", // Green for parent-child
-                strokeWidth: 3,
-                dash: undefined, // Solid line
-                lineCap: 'round' as const,
-                lineJoin: 'round' as const
-            } : {
-                stroke: "#6b7280", // Gray for regular connections
-                strokeWidth: 2,
-                dash: [5, 5], // Dashed line
+    const renderConnections = () => {
+        return routedConnections.map(({ connection, index, route, dimmed, style }) => {
+            const isSelected = isSameConnection(selectedConnection, connection);
+            const dash = DASH_PATTERNS[style.lineStyle];
+
+            const lineProps = {
+                points: route.points,
+                bezier: route.bezier,
+                stroke: style.color,
+                strokeWidth: style.strokeWidth,
+                dash: dash && dash.map(length => length * style.strokeWidth),
                 lineCap: 'round' as const,
-                lineJoin: 'round' as const
+                lineJoin: 'round' as const,
+                opacity: dimmed ? DIMMED_OPACITY : 1,
+                // Wide invisible hit area so thin lines are easy to click
+                hitStrokeWidth: 14,
+                shadowColor: canvasColors.selection,
+                shadowBlur: isSelected ? 8 : 0,
+                shadowOpacity: isSelected ? 0.9 : 0,
+                listening: !!onConnectionSelect,
+                onClick: (e: any) => {
+                    e.cancelBubble = true;
+                    onConnectionSelect?.(connection);
+                },
+                onTap: (e: any) => {
+                    e.cancelBubble = true;
+                    onConnectionSelect?.(connection);
+                },
+                onMouseEnter: (e: any) => {
+                    const container = e.target.getStage()?.container();
+                    if (container) container.style.cursor = 'pointer';
+                },
+                onMouseLeave: (e: any) => {
+                    const container = e.target.getStage()?.container();
+                    if (container) container.style.cursor = 'default';
+                },
             };
 
-            return (
-                <Line
-                    key={`connection-${index}`}
-                    points={[
-                        fromNode.x + 60, fromNode.y + 20, // Center of from node
-                        toNode.x + 60, toNode.y + 20,     // Center of to node
-                    ]}
-                    stroke={lineStyle.stroke}
-                    strokeWidth={lineStyle.strokeWidth}
-                    dash={lineStyle.dash}
-                    lineCap={lineStyle.lineCap}
-                    lineJoin={lineStyle.lineJoin}
-                />
-            );
+            if (style.direction !== 'none') {
+                return (
+                    <Arrow
+                        key={`connection-${index}`}
+                        {...lineProps}
+                        fill={style.color}
+                        pointerLength={10}
+                        pointerWidth={8}
+                        pointerAtBeginning={style.direction === 'both'}
+                    />
+                );
+            }
+            return <Line key={`connection-${index}`} {...lineProps} />;
         });
     };
 
+    // Labels are drawn above the nodes so a label is never hidden under a box
+    const renderConnectionLabels = () => {
+        return routedConnections
+            .filter(({ connection }) => connection.label)
+            .map(({ connection, index, route, dimmed, style }) => {
+                const labelWidth = measureTextWidth(connection.label!, 11) + 10;
+                const isSelected = isSameConnection(selectedConnection, connection);
+                return (
+                    <Group
+                        key={`connection-label-${index}`}
+                        x={route.midpoint.x - labelWidth / 2}
+                        y={route.midpoint.y - 9}
+                        opacity={dimmed ? DIMMED_OPACITY : 1}
+                        onClick={(e: any) => {
+                            e.cancelBubble = true;
+                            onConnectionSelect?.(connection);
+                        }}
+                        onTap={(e: any) => {
+                            e.cancelBubble = true;
+                            onConnectionSelect?.(connection);
+                        }}
+                    >
+                        <Rect
+                            width={labelWidth}
+                            height={18}
+                            cornerRadius={9}
+                            fill={canvasColors.labelBackground}
+                            stroke={isSelected ? canvasColors.selection : style.color}
+                            strokeWidth={1}
+                        />
+                        <Text
+                            width={labelWidth}
+                            y={4}
+                            text={connection.label}
+                            fontSize={11}
+                            fontFamily={fontFamily}
+                            fill={canvasColors.labelText}
+                            align="center"
+                            listening={false}
+                        />
+                    </Group>
+                );
+            });
+    };
+
     const renderNodes = () => {
-        return nodes.map((node) => {
-            const isSelected = selectedNodeId === node.id;
-            const isConnectingFrom = connectingFrom === node.id;
-            const nodeColor = node.color || '#ffffff';
+        return visibleNodes.map((node) => {
+            const isSelected = selectedIds.has(node.id);
+            const isConnectingFrom = connectFromId === node.id;
+            const showHandles = !!onConnectionCreate && !dragState && !connectDrag && editingNodeId !== node.id &&
+                (hoveredNodeId === node.id || (isSelected && selectedNodeIds.length === 1));
+            const nodeColor = node.color || canvasColors.nodeFill;
+            const position = getDisplayPosition(node);
+            const { width: nodeWidth, height: nodeHeight } = getNodeSize(node);
+            const style = getThemedNodeStyle(node);
+            const textArea = getTextArea(style.shape, nodeWidth, nodeHeight);
+            const linkUrl = node.link ? toSafeUrl(node.link) : null;
+            // The image sits at the top of the text area, pushing the text down
+            const imageOffset = node.image ? node.image.height + IMAGE_GAP : 0;
+            const hasChildren = (children[node.id] || []).length > 0;
+            const isActiveMatch = activeHighlightId === node.id;
+            const isMatch = isActiveMatch || (!!highlightedNodeIds && highlightedNodeIds.has(node.id));
 
             // Determine stroke color based on state
-            let strokeColor = '#d1d5db';
-            let strokeWidth = 1;
+            let strokeColor = style.borderColor;
+            let strokeWidth = style.borderWidth;
 
-            if (isSelected || isConnectingFrom) {
-                strokeColor = '#4f46e5';
+            if (dropTarget && dropTarget.nodeId === node.id) {
+                // Green when dropping here reparents the dragged node, red when it is not allowed
+                strokeColor = dropTarget.valid ? canvasColors.valid : canvasColors.invalid;
+                strokeWidth = 4;
+            } else if (isSelected || isConnectingFrom) {
+                strokeColor = canvasColors.selection;
                 strokeWidth = 3;
-            } else if (connectionMode) {
-                strokeColor = '#10b981'; // Green for connection mode
-                strokeWidth = 2;
             }
 
-            let touchStart = { x: 0, y: 0 };
-            let dragging = false;
             return (
-                <React.Fragment key={node.id}>
+                <Group
+                    key={node.id}
+                    x={position.x}
+                    y={position.y}
+                    opacity={dimmedNodeIds && dimmedNodeIds.has(node.id) && !isSelected && !isActiveMatch ? DIMMED_OPACITY : 1}
+                    draggable
+                    onClick={(e: any) => onNodeSelect(node.id, e.evt.shiftKey || e.evt.ctrlKey || e.evt.metaKey)}
+                    onTap={() => onNodeSelect(node.id)}
+                    onDblClick={() => onNodeEditStart?.(node.id)}
+                    onDblTap={() => onNodeEditStart?.(node.id)}
+                    onDragStart={(e: any) => {
+                        // Dragging one node of a multi-selection moves the whole group
+                        const multiSelection = isSelected && selectedNodeIds.length > 1;
+                        const nodeIds = multiSelection ? new Set(selectedNodeIds) : new Set([node.id]);
+                        if (dragSubtrees !== !!e.evt?.altKey) {
+                            Array.from(nodeIds).forEach(id => {
+                                findDescendants(id, allNodes).forEach(descendant => nodeIds.add(descendant.id));
+                            });
+                        }
+                        dragStart.current = { nodeId: node.id, x: node.x, y: node.y, nodeIds, multiSelection };
+                        setDragState({ nodeIds, dx: 0, dy: 0 });
+                    }}
+                    onDragMove={(e: any) => {
+                        const start = dragStart.current;
+                        if (!start) return;
+                        const snapped = snapDrag(e.target.x(), e.target.y());
+                        e.target.position({ x: snapped.x, y: snapped.y });
+                        setGuides(snapped.guides);
+                        setDragState({
+                            nodeIds: start.nodeIds,
+                            dx: snapped.x - start.x,
+                            dy: snapped.y - start.y,
+                        });
+                        setDropTarget(findDropTarget(e));
+                    }}
+                    onDragEnd={(e: any) => {
+                        const start = dragStart.current;
+                        if (!start) return;
+                        const target = findDropTarget(e);
+                        if (target && target.valid && onNodeReparent) {
+                            onNodeReparent(start.nodeId, target.nodeId);
+                        } else if (target) {
+                            // Rejected drop: the node goes back to where it was
+                            e.target.position({ x: start.x, y: start.y });
+                        } else {
+                            const dx = e.target.x() - start.x;
+                            const dy = e.target.y() - start.y;
+                            onNodesDrag(allNodes
+                                .filter(n => start.nodeIds.has(n.id))
+                                .map(n => ({ id: n.id, x: n.x + dx, y: n.y + dy })));
+                        }
+                        dragStart.current = null;
+                        setDragState(null);
+                        setDropTarget(null);
+                        setGuides([]);
+                    }}
+                    onMouseEnter={(e: any) => {
+                        setHoveredNodeId(node.id);
+                        const container = e.target.getStage()?.container();
+                        if (container) {
+                            container.style.cursor = 'move';
+                        }
+                    }}
+                    onMouseLeave={(e: any) => {
+                        setHoveredNodeId(null);
+                        const container = e.target.getStage()?.container();
+                        if (container) {
+                            container.style.cursor = 'default';
+                        }
+                    }}
+                >
+                    {isMatch && (
+                        <Rect
+                            x={-4}
+                            y={-4}
+                            width={nodeWidth + 8}
+                            height={nodeHeight + 8}
+                            cornerRadius={8}
+                            fill={canvasColors.searchHighlight}
+                            opacity={isActiveMatch ? 0.9 : 0.45}
+                            stroke={isActiveMatch ? canvasColors.selection : undefined}
+                            strokeWidth={isActiveMatch ? 2 : 0}
+                            listening={false}
+                        />
+                    )}
+
                     {/* Node background */}
-                    <Rect
-                        x={node.x}
-                        y={node.y}
-                        width={120}
-                        height={40}
-                        fill={nodeColor}
-                        stroke={strokeColor}
-                        strokeWidth={strokeWidth}
-                        cornerRadius={6}
-                        shadowColor="rgba(0, 0, 0, 0.1)"
-                        shadowOffsetY={2}
-                        shadowBlur={4}
-                        draggable={!connectionMode}
-                        onClick={() => onNodeSelect(node.id)}
-                        onDragEnd={(e: any) => {
-                            onNodeDrag(node.id, e.target.x(), e.target.y());
-                        }}
-                        onMouseEnter={(e: any) => {
-                            const container = e.target.getStage()?.container();
-                            if (container) {
-                                container.style.cursor = connectionMode ? 'pointer' : 'move';
-                            }
-                        }}
-                        onMouseLeave={(e: any) => {
-                            const container = e.target.getStage()?.container();
-                            if (container) {
-                                container.style.cursor = 'default';
-                            }
-                        }}
-                        onTouchStart={(e: any) => {
-                            const touch = e.evt.touches[0];
-                            touchStart = { x: touch.clientX, y: touch.clientY };
-                            dragging = false;
-                        }}
-                        onTouchMove={(e: any) => {
-                            const touch = e.evt.touches[0];
-                            const dx = touch.clientX - touchStart.x;
-                            const dy = touch.clientY - touchStart.y;
-                            if (Math.abs(dx) > 5 || Math.abs(dy) > 5) {
-                                dragging = true;
-                                onNodeDrag(node.id, node.x + dx, node.y + dy);
-                            }
-                        }}
-                        onTouchEnd={(e: any) => {
-                            if (!dragging) {
-                                onNodeSelect(node.id);
-                            }
-                            dragging = false;
-                        }}
-                    />
+                    {renderNodeShape(style, nodeWidth, nodeHeight, nodeColor, strokeColor, strokeWidth)}
+
+                    {node.image && (
+                        <NodeImage
+                            src={node.image.src}
+                            x={textArea.x + (textArea.width - node.image.width) / 2}
+                            y={textArea.y + paddingY}
+                            width={node.image.width}
+                            height={node.image.height}
+                            placeholderColor={canvasColors.grid}
+                        />
+                    )}
 
                     {/* Node text */}
                     <Text
-                        x={node.x + 10}
-                        y={node.y + 12}
-                        text={node.text}
-                        fontSize={12}
-                        fontFamily="Arial"
-                        fill="#1f2937"
-                        width={100}
-                        height={16}
-                        ellipsis={true}
+                        x={textArea.x + paddingX}
+                        y={textArea.y + paddingY + imageOffset}
+                        text={getNodeLabel(node)}
+                        fontSize={style.fontSize}
+                        fontFamily={fontFamily}
+                        fontStyle={getFontStyle(style)}
+                        lineHeight={lineHeight}
+                        fill={style.textColor}
+                        align={style.textAlign}
+                        width={textArea.width - paddingX * 2}
+                        height={textArea.height - paddingY * 2 - imageOffset}
+                        textDecoration={node.task?.done ? 'line-through' : ''}
+                        opacity={node.task?.done ? 0.6 : 1}
+                        wrap="word"
+                        verticalAlign="middle"
                         listening={false} // Make text non-interactive
                     />
 
                     {/* Selection indicator */}
                     {isSelected && (
                         <Circle
-                            x={node.x + 115}
-                            y={node.y + 5}
+                            x={nodeWidth - 5}
+                            y={5}
                             radius={3}
-                            fill="#4f46e5"
+                            fill={canvasColors.selection}
+                            listening={false}
                         />
                     )}
-                </React.Fragment>
+
+                    {/* Link and note indicators on the top edge */}
+                    {linkUrl && renderContentIndicator('🔗', nodeWidth - 12, {
+                        onMouseDown: (e: any) => {
+                            e.cancelBubble = true;
+                        },
+                        onClick: (e: any) => {
+                            e.cancelBubble = true;
+                            window.open(linkUrl, '_blank', 'noopener,noreferrer');
+                        },
+                        onTap: (e: any) => {
+                            e.cancelBubble = true;
+                            window.open(linkUrl, '_blank', 'noopener,noreferrer');
+                        },
+                    }, linkUrl)}
+                    {node.note && renderContentIndicator('📝', nodeWidth - (linkUrl ? 32 : 12), {
+                        onMouseEnter: () => setNoteNodeId(node.id),
+                        onMouseLeave: () => setNoteNodeId(null),
+                        onTap: (e: any) => {
+                            e.cancelBubble = true;
+                            setNoteNodeId(noteNodeId === node.id ? null : node.id);
+                        },
+                    })}
+
+                    {/* Collapse/expand toggle for nodes with children */}
+                    {hasChildren && onToggleCollapse && (
+                        <Group
+                            x={nodeWidth}
+                            y={nodeHeight / 2}
+                            onClick={(e: any) => {
+                                e.cancelBubble = true;
+                                onToggleCollapse(node.id);
+                            }}
+                            onTap={(e: any) => {
+                                e.cancelBubble = true;
+                                onToggleCollapse(node.id);
+                            }}
+                            onMouseEnter={(e: any) => {
+                                const container = e.target.getStage()?.container();
+                                if (container) {
+                                    container.style.cursor = 'pointer';
+                                }
+                            }}
+                            onMouseLeave={(e: any) => {
+                                const container = e.target.getStage()?.container();
+                                if (container) {
+                                    container.style.cursor = 'move';
+                                }
+                            }}
+                        >
+                            <Circle
+                                radius={8}
+                                fill={canvasColors.handleFill}
+                                stroke={canvasColors.parentChildConnection}
+                                strokeWidth={1.5}
+                            />
+                            <Text
+                                x={-8}
+                                y={-7}
+                                width={16}
+                                text={node.collapsed ? '+' : '−'}
+                                fontSize={13}
+                                fontStyle="bold"
+                                fontFamily="Arial"
+                                fill={canvasColors.parentChildConnection}
+                                align="center"
+                                listening={false}
+                            />
+                        </Group>
+                    )}
+
+                    {renderTaskChips(node, nodeHeight)}
+
+                    {/* Number of hidden descendants on collapsed nodes */}
+                    {hasChildren && node.collapsed && (
+                        <Group x={nodeWidth + 12} y={nodeHeight / 2 - 9} listening={false}>
+                            <Rect
+                                width={28}
+                                height={18}
+                                cornerRadius={9}
+                                fill={canvasColors.parentChildConnection}
+                            />
+                            <Text
+                                width={28}
+                                y={4}
+                                text={String(findDescendants(node.id, allNodes).length)}
+                                fontSize={11}
+                                fontStyle="bold"
+                                fontFamily="Arial"
+                                fill={canvasColors.background}
+                                align="center"
+                            />
+                        </Group>
+                    )}
+
+                    {/* Drag-to-connect handles */}
+                    {showHandles && getHandlePoints(nodeWidth, nodeHeight, hasChildren && !!onToggleCollapse).map(point => (
+                        <Circle
+                            key={`handle-${point.x}-${point.y}`}
+                            x={point.x}
+                            y={point.y}
+                            radius={5}
+                            fill={canvasColors.handleFill}
+                            stroke={canvasColors.selection}
+                            strokeWidth={1.5}
+                            hitStrokeWidth={8}
+                            onMouseDown={(e: any) => handleConnectStart(e, node.id)}
+                            onTouchStart={(e: any) => handleConnectStart(e, node.id)}
+                            onMouseEnter={(e: any) => {
+                                const container = e.target.getStage()?.container();
+                                if (container) {
+                                    container.style.cursor = 'crosshair';
+                                }
+                            }}
+                            onMouseLeave={(e: any) => {
+                                const container = e.target.getStage()?.container();
+                                if (container) {
+                                    container.style.cursor = 'move';
+                                }
+                            }}
+                        />
+                    ))}
+                </Group>
             );
         });
     };
 
+    // Line following the pointer while a connection is dragged; it snaps to the node
+    // under the pointer, green when the connection can be made there and red otherwise
+    const renderConnectionPreview = () => {
+        const fromNode = connectDrag ? getNodeById(connectDrag.fromId) : undefined;
+        if (!connectDrag || !fromNode) return null;
+
+        const fromBox = getNodeBox(fromNode);
+        const targetNode = dropTarget ? getNodeById(dropTarget.nodeId) : undefined;
+        let points: number[];
+        let bezier = false;
+        if (targetNode) {
+            const route = routeConnection(fromBox, getNodeBox(targetNode), connectionRouting);
+            points = route.points;
+            bezier = route.bezier;
+        } else {
+            const start = clipToBorder(fromBox, connectDrag);
+            points = [start.x, start.y, connectDrag.x, connectDrag.y];
+        }
+        const color = !dropTarget ? canvasColors.selection : dropTarget.valid ? canvasColors.valid : canvasColors.invalid;
+
+        return (
+            <Arrow
+                points={points}
+                bezier={bezier}
+                stroke={color}
+                fill={color}
+                strokeWidth={2}
+                dash={[6, 4]}
+                pointerLength={10}
+                pointerWidth={8}
+                lineCap="round"
+                listening={false}
+            />
+        );
+    };
+
+    const renderGrid = () => {
+        // Only the visible part is drawn; lines get sparser when zoomed far out
+        let spacing = GRID_SIZE;
+        while (spacing * viewport.scale < 10) spacing *= 5;
+        const topLeft = screenToMap({ x: 0, y: 0 }, viewport);
+        const bottomRight = screenToMap({ x: width, y: height }, viewport);
+
+        return (
+            <Shape
+                listening={false}
+                sceneFunc={(context: any) => {
+                    context.beginPath();
+                    for (let x = Math.floor(topLeft.x / spacing) * spacing; x <= bottomRight.x; x += spacing) {
+                        context.moveTo(x, topLeft.y);
+                        context.lineTo(x, bottomRight.y);
+                    }
+                    for (let y = Math.floor(topLeft.y / spacing) * spacing; y <= bottomRight.y; y += spacing) {
+                        context.moveTo(topLeft.x, y);
+                        context.lineTo(bottomRight.x, y);
+                    }
+                    context.strokeStyle = canvasColors.grid;
+                    context.lineWidth = 1 / viewport.scale;
+                    context.stroke();
+                }}
+            />
+        );
+    };
+
+    const renderGuides = () => {
+        return guides.map((guide, index) => (
+            <Line
+                key={`guide-${index}`}
+                points={guide.orientation === 'vertical'
+                    ? [guide.position, guide.start, guide.position, guide.end]
+                    : [guide.start, guide.position, guide.end, guide.position]}
+                stroke={canvasColors.guide}
+                strokeWidth={1 / viewport.scale}
+                dash={[4 / viewport.scale, 3 / viewport.scale]}
+                listening={false}
+            />
+        ));
+    };
+
+    // Row of small chips under a node: task checkbox, priority, due date, assignee
+    // and the share of done tasks among its descendants
+    const renderTaskChips = (node: Node, nodeHeight: number) => {
+        const task = node.task;
+        const progress = taskProgress.get(node.id);
+        if (!task && !progress) return null;
+
+        const chips: { key: string; text: string; fill: string; textFill: string; stroke?: string; progress?: number }[] = [];
+        if (task && task.priority) {
+            chips.push({ key: 'priority', text: `P${task.priority}`, fill: getPriorityColor(task.priority), textFill: '#ffffff' });
+        }
+        if (task && task.dueDate) {
+            const overdue = isTaskOverdue(task, today);
+            chips.push({
+                key: 'due',
+                text: `📅 ${formatDueDate(task.dueDate)}`,
+                fill: canvasColors.labelBackground,
+                textFill: overdue ? canvasColors.invalid : canvasColors.labelText,
+                stroke: overdue ? canvasColors.invalid : canvasColors.nodeStroke,
+            });
+        }
+        if (task && task.assignee) {
+            chips.push({
+                key: 'assignee',
+                text: `👤 ${task.assignee}`,
+                fill: canvasColors.labelBackground,
+                textFill: canvasColors.labelText,
+                stroke: canvasColors.nodeStroke,
+            });
+        }
+        if (progress) {
+            const percent = getProgressPercent(progress);
+            chips.push({
+                key: 'progress',
+                text: `${percent}% (${progress.done}/${progress.total})`,
+                fill: canvasColors.labelBackground,
+                textFill: canvasColors.labelText,
+                stroke: canvasColors.valid,
+                progress: percent / 100,
+            });
+        }
+
+        const chipHeight = 16;
+        // Chips follow the checkbox, left to right
+        let x = task ? chipHeight + 4 : 0;
+        return (
+            <Group y={nodeHeight + 4}>
+                {task && (
+                    <Group
+                        onMouseDown={(e: any) => {
+                            e.cancelBubble = true;
+                        }}
+                        onClick={(e: any) => {
+                            e.cancelBubble = true;
+                            onTaskToggle?.(node.id);
+                        }}
+                        onTap={(e: any) => {
+                            e.cancelBubble = true;
+                            onTaskToggle?.(node.id);
+                        }}
+                        listening={!!onTaskToggle}
+                    >
+                        <Rect
+                            width={chipHeight}
+                            height={chipHeight}
+                            cornerRadius={3}
+                            fill={task.done ? canvasColors.valid : canvasColors.labelBackground}
+                            stroke={task.done ? canvasColors.valid : canvasColors.nodeStroke}
+                            strokeWidth={1.5}
+                        />
+                        {task.done && (
+                            <Text
+                                width={chipHeight}
+                                y={2}
+                                text="✓"
+                                fontSize={12}
+                                fontStyle="bold"
+                                fontFamily="Arial"
+                                fill={canvasColors.background}
+                                align="center"
+                                listening={false}
+                            />
+                        )}
+                    </Group>
+                )}
+                {chips.map(chip => {
+                    const chipWidth = measureTextWidth(chip.text, 10, fontFamily) + 10;
+                    const chipX = x;
+                    x += chipWidth + 4;
+                    return (
+                        <Group key={chip.key} x={chipX} listening={false}>
+                            <Rect
+                                width={chipWidth}
+                                height={chipHeight}
+                                cornerRadius={chipHeight / 2}
+                                fill={chip.fill}
+                                stroke={chip.stroke}
+                                strokeWidth={chip.stroke ? 1 : 0}
+                            />
+                            {chip.progress !== undefined && chip.progress > 0 && (
+                                <Rect
+                                    width={chipWidth * chip.progress}
+                                    height={chipHeight}
+                                    cornerRadius={chipHeight / 2}
+                                    fill={canvasColors.valid}
+                                    opacity={0.3}
+                                />
+                            )}
+                            <Text
+                                width={chipWidth}
+                                y={3}
+                                text={chip.text}
+                                fontSize={10}
+                                fontFamily={fontFamily}
+                                fill={chip.textFill}
+                                align="center"
+                            />
+                        </Group>
+                    );
+                })}
+            </Group>
+        );
+    };
+
+    // Small round badge on a node; the handlers decide what it does
+    const renderContentIndicator = (glyph: string, x: number, handlers: { [event: string]: (e: any) => void }, title?: string) => (
+        <Group
+            key={glyph}
+            x={x}
+            y={0}
+            {...handlers}
+            onMouseEnter={(e: any) => {
+                handlers.onMouseEnter?.(e);
+                const container = e.target.getStage()?.container();
+                if (container) {
+                    container.style.cursor = 'pointer';
+                    container.title = title || '';
+                }
+            }}
+            onMouseLeave={(e: any) => {
+                handlers.onMouseLeave?.(e);
+                const container = e.target.getStage()?.container();
+                if (container) {
+                    container.style.cursor = 'move';
+                    container.title = '';
+                }
+            }}
+        >
+            <Circle radius={9} fill={canvasColors.handleFill} stroke={canvasColors.nodeStroke} strokeWidth={1} />
+            <Text x={-9} y={-5} width={18} text={glyph} fontSize={10} align="center" listening={false} />
+        </Group>
+    );
+
+    const renderNotePopover = () => {
+        const node = noteNodeId && !dragState ? getNodeById(noteNodeId) : undefined;
+        if (!node || !node.note) return null;
+
+        const position = getDisplayPosition(node);
+        const { height: nodeHeight } = getNodeSize(node);
+        const anchor = mapToScreen({ x: position.x, y: position.y + nodeHeight + 6 / viewport.scale }, viewport);
+        return <NotePopover note={node.note} x={anchor.x} y={anchor.y} />;
+    };
+
+    const renderInlineEditor = () => {
+        const editingNode = editingNodeId ? getNodeById(editingNodeId) : undefined;
+        if (!editingNode || !onNodeTextCommit || !onNodeEditCancel) return null;
+
+        const topLeft = mapToScreen(getDisplayPosition(editingNode), viewport);
+        const { width: nodeWidth, height: nodeHeight } = getNodeSize(editingNode);
+        const style = getThemedNodeStyle(editingNode);
+        return (
+            <InlineTextEditor
+                key={editingNode.id}
+                initialText={editingNode.text}
+                x={topLeft.x}
+                y={topLeft.y}
+                width={nodeWidth * viewport.scale}
+                minHeight={nodeHeight * viewport.scale}
+                fontSize={style.fontSize * viewport.scale}
+                fontWeight={style.bold ? 'bold' : 'normal'}
+                fontStyle={style.italic ? 'italic' : 'normal'}
+                textAlign={style.textAlign}
+                textColor={style.textColor}
+                backgroundColor={editingNode.color || canvasColors.nodeFill}
+                onCommit={(text) => {
+                    onNodeTextCommit(editingNode.id, text);
+                    refocusCanvas();
+                }}
+                onCancel={() => {
+                    onNodeEditCancel();
+                    refocusCanvas();
+                }}
+            />
+        );
+    };
+
+    // Enter or Escape in the editor hands focus back to the canvas; when the editor
+    // closed because something else was clicked, that keeps the focus
+    const refocusCanvas = () => {
+        const container = containerRef.current;
+        if (container && container.contains(document.activeElement)) {
+            container.focus({ preventScroll: true });
+        }
+    };
+
     return (
-        <Stage width={width} height={height} ref={stageRef} {...({} as any)}>
-            <Layer onTap={handleStageClick} onClick={handleStageClick}>
-                {renderConnections()}
-                {renderNodes()}
-            </Layer>
-        </Stage>
+        <div
+            ref={containerRef}
+            tabIndex={0}
+            data-canvas-focus
+            style={{ position: 'relative', width, height, background: background || canvasColors.background, outline: 'none' }}
+            onDragOver={handleFileDragOver}
+            onDragLeave={() => setDropTarget(null)}
+            onDrop={handleFileDrop}
+        >
+            <Stage
+                width={width}
+                height={height}
+                ref={stageRef}
+                x={viewport.x}
+                y={viewport.y}
+                scaleX={viewport.scale}
+                scaleY={viewport.scale}
+                draggable={!marquee}
+                dragDistance={PAN_DRAG_DISTANCE}
+                onWheel={handleWheel}
+                onDragMove={handleStageDrag}
+                onDragEnd={handleStageDrag}
+                onClick={handleStageClick}
+                onTap={handleStageClick}
+                onMouseDown={handleStageMouseDown}
+                onMouseMove={handleStageMouseMove}
+                onMouseUp={handleStageMouseUp}
+                onTouchMove={handleTouchMove}
+                onTouchEnd={handleTouchEnd}
+                {...({} as any)}
+            >
+                <Layer>
+                    {showGrid && renderGrid()}
+                    {renderConnections()}
+                    {renderNodes()}
+                    {renderConnectionLabels()}
+                    {renderConnectionPreview()}
+                    {renderGuides()}
+                    {marquee && (
+                        <Rect
+                            x={marquee.x}
+                            y={marquee.y}
+                            width={marquee.width}
+                            height={marquee.height}
+                            fill={canvasColors.marqueeFill}
+                            stroke={canvasColors.selection}
+                            strokeWidth={1 / viewport.scale}
+                            dash={[4 / viewport.scale, 4 / viewport.scale]}
+                            listening={false}
+                        />
+                    )}
+                </Layer>
+            </Stage>
+            {renderNotePopover()}
+            {renderInlineEditor()}
+        </div>
     );
 };
 
@@ -0,0 +1,32 @@
+import React from 'react';
+import { Image, Rect } from 'react-konva';
+
+interface NodeImageProps {
+    src: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    placeholderColor: string;
+}
+
+// Image thumbnail inside a node; a plain box holds its place while it loads
+const NodeImage: React.FC<NodeImageProps> = ({ src, x, y, width, height, placeholderColor }) => {
+    const [image, setImage] = React.useState<HTMLImageElement | null>(null);
+
+    React.useEffect(() => {
+        const element = new window.Image();
+        element.onload = () => setImage(element);
+        element.src = src;
+        return () => {
+            element.onload = null;
+        };
+    }, [src]);
+
+    if (!image || image.src !== src) {
+        return <Rect x={x} y={y} width={width} height={height} fill={placeholderColor} cornerRadius={4} listening={false} />;
+    }
+    return <Image image={image} x={x} y={y} width={width} height={height} cornerRadius={4} listening={false} />;
+};
+
+export default NodeImage;
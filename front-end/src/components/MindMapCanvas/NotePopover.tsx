@@ -0,0 +1,106 @@
+import React from 'react';
+import styled from 'styled-components';
+import { MarkdownInline, parseMarkdown } from '../../utils/markdownUtils';
+
+const PopoverContainer = styled.div`
+  position: absolute;
+  max-width: 320px;
+  max-height: 240px;
+  overflow: hidden;
+  padding: 0.5rem 0.75rem;
+  border: 1px solid ${({ theme }) => theme.colors.border};
+  border-radius: 8px;
+  background: ${({ theme }) => theme.colors.surface};
+  color: ${({ theme }) => theme.colors.text};
+  box-shadow: 0 4px 12px ${({ theme }) => theme.colors.shadow};
+  font-size: 0.8rem;
+  line-height: 1.4;
+  pointer-events: none;
+  z-index: 15;
+
+  h1, h2, h3 {
+    margin: 0.25rem 0;
+  }
+
+  h1 { font-size: 1rem; }
+  h2 { font-size: 0.9rem; }
+  h3 { font-size: 0.85rem; }
+
+  p, ul, ol, pre {
+    margin: 0.25rem 0;
+  }
+
+  p {
+    white-space: pre-wrap;
+  }
+
+  ul, ol {
+    padding-left: 1.25rem;
+  }
+
+  code, pre {
+    background: ${({ theme }) => theme.colors.surfaceMuted};
+    border-radius: 4px;
+    font-size: 0.75rem;
+  }
+
+  code {
+    padding: 0 0.2rem;
+  }
+
+  pre {
+    padding: 0.25rem 0.5rem;
+    white-space: pre-wrap;
+  }
+
+  a {
+    color: ${({ theme }) => theme.colors.primary};
+  }
+`;
+
+const renderInline = (content: MarkdownInline[]) => content.map((part, index) => {
+    switch (part.type) {
+        case 'bold':
+            return <strong key={index}>{part.text}</strong>;
+        case 'italic':
+            return <em key={index}>{part.text}</em>;
+        case 'code':
+            return <code key={index}>{part.text}</code>;
+        case 'link':
+            return <a key={index} href={part.url}>{part.text}</a>;
+        default:
+            return <React.Fragment key={index}>{part.text}</React.Fragment>;
+    }
+});
+
+interface NotePopoverProps {
+    note: string;
+    x: number;
+    y: number;
+}
+
+// Read-only view of a node's Markdown note, shown while hovering its indicator
+const NotePopover: React.FC<NotePopoverProps> = ({ note, x, y }) => {
+    const blocks = React.useMemo(() => parseMarkdown(note), [note]);
+
+    return (
+        <PopoverContainer data-export-hide style={{ left: x, top: y }}>
+            {blocks.map((block, index) => {
+                switch (block.type) {
+                    case 'heading':
+                        return React.createElement(`h${block.level}`, { key: index }, renderInline(block.content));
+                    case 'list': {
+                        const items = block.items.map((item, itemIndex) => <li key={itemIndex}>{renderInline(item)}</li>);
+                        return block.ordered ? <ol key={index}>{items}</ol> : <ul key={index}>{items}</ul>;
+                    }
+                    case 'code':
+                        return <pre key={index}>{block.text}</pre>;
+                    default:
+                        return <p key={index}>{renderInline(block.content)}</p>;
+                }
+            })}
+        </PopoverContainer>
+    );
+};
+
+export default NotePopover;
@@ -0,0 +1,180 @@
+import React from 'react';
+import styled, { useTheme } from 'styled-components';
+import { Stage, Layer, Shape, Rect } from 'react-konva';
+import { Node, Connection, Viewport } from '../../types';
+import { getNodeSize, getNodeCenter, getNodesBounds, getHiddenNodeIds } from '../../utils/mindMapUtils';
+import { screenToMap } from '../../utils/viewportUtils';
+
+const MinimapContainer = styled.div`
+  position: absolute;
+  left: 1rem;
+  bottom: 1rem;
+  background: ${({ theme }) => theme.colors.surfaceOverlay};
+  border: 1px solid ${({ theme }) => theme.colors.border};
+  border-radius: 8px;
+  box-shadow: 0 2px 10px ${({ theme }) => theme.colors.shadow};
+  overflow: hidden;
+  z-index: 10;
+  cursor: pointer;
+
+  @media (max-width: 768px) {
+    display: none;
+  }
+`;
+
+interface MinimapProps {
+    nodes: Node[];
+    connections: Connection[];
+    viewport: Viewport;
+    viewportSize: { width: number; height: number };
+    onViewportChange: (viewport: Viewport) => void;
+    width?: number;
+    height?: number;
+}
+
+interface MinimapBounds {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+const PADDING = 50;
+
+const Minimap: React.FC<MinimapProps> = ({
+    nodes: allNodes,
+    connections,
+    viewport,
+    viewportSize,
+    onViewportChange,
+    width = 200,
+    height = 140,
+}) => {
+    const { canvas: canvasColors } = useTheme();
+    const dragBounds = React.useRef<MinimapBounds | null>(null);
+
+    // Mirror the canvas: branches under collapsed nodes are not shown
+    const hiddenIds = getHiddenNodeIds(allNodes);
+    const nodes = hiddenIds.size > 0 ? allNodes.filter(node => !hiddenIds.has(node.id)) : allNodes;
+
+    // Visible part of the map, in map coordinates
+    const visibleTopLeft = screenToMap({ x: 0, y: 0 }, viewport);
+    const visible = {
+        x: visibleTopLeft.x,
+        y: visibleTopLeft.y,
+        width: viewportSize.width / viewport.scale,
+        height: viewportSize.height / viewport.scale,
+    };
+
+    // The minimap always shows every node plus the visible area. While dragging the
+    // bounds are frozen so the overview does not shift under the pointer.
+    const computeBounds = (): MinimapBounds => {
+        const nodeBounds = getNodesBounds(nodes) || visible;
+        const minX = Math.min(nodeBounds.x, visible.x) - PADDING;
+        const minY = Math.min(nodeBounds.y, visible.y) - PADDING;
+        const maxX = Math.max(nodeBounds.x + nodeBounds.width, visible.x + visible.width) + PADDING;
+        const maxY = Math.max(nodeBounds.y + nodeBounds.height, visible.y + visible.height) + PADDING;
+        return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+    };
+
+    const bounds = dragBounds.current || computeBounds();
+    const scale = Math.min(width / bounds.width, height / bounds.height);
+    const offsetX = (width - bounds.width * scale) / 2;
+    const offsetY = (height - bounds.height * scale) / 2;
+
+    const toMinimap = (x: number, y: number) => ({
+        x: offsetX + (x - bounds.x) * scale,
+        y: offsetY + (y - bounds.y) * scale,
+    });
+
+    const centerViewportOn = (e: any) => {
+        const pos = e.target.getStage().getPointerPosition();
+        if (!pos) return;
+
+        const mapX = bounds.x + (pos.x - offsetX) / scale;
+        const mapY = bounds.y + (pos.y - offsetY) / scale;
+        onViewportChange({
+            ...viewport,
+            x: viewportSize.width / 2 - mapX * viewport.scale,
+            y: viewportSize.height / 2 - mapY * viewport.scale,
+        });
+    };
+
+    const handlePointerDown = (e: any) => {
+        dragBounds.current = bounds;
+        centerViewportOn(e);
+    };
+
+    const handlePointerMove = (e: any) => {
+        if (dragBounds.current) {
+            centerViewportOn(e);
+        }
+    };
+
+    const handlePointerUp = () => {
+        dragBounds.current = null;
+    };
+
+    const nodesById = new Map(nodes.map(node => [node.id, node]));
+    const visibleRect = toMinimap(visible.x, visible.y);
+
+    return (
+        <MinimapContainer data-export-hide title="Map overview">
+            <Stage
+                width={width}
+                height={height}
+                onMouseDown={handlePointerDown}
+                onMouseMove={handlePointerMove}
+                onMouseUp={handlePointerUp}
+                onMouseLeave={handlePointerUp}
+                onTouchStart={handlePointerDown}
+                onTouchMove={handlePointerMove}
+                onTouchEnd={handlePointerUp}
+                {...({} as any)}
+            >
+                <Layer>
+                    {/* Drawn as a single shape so maps with hundreds of nodes stay cheap */}
+                    <Shape
+                        listening={false}
+                        sceneFunc={(context: any) => {
+                            context.beginPath();
+                            connections.forEach(connection => {
+                                const fromNode = nodesById.get(connection.from);
+                                const toNode = nodesById.get(connection.to);
+                                if (!fromNode || !toNode) return;
+                                const fromCenter = getNodeCenter(fromNode);
+                                const toCenter = getNodeCenter(toNode);
+                                const from = toMinimap(fromCenter.x, fromCenter.y);
+                                const to = toMinimap(toCenter.x, toCenter.y);
+                                context.moveTo(from.x, from.y);
+                                context.lineTo(to.x, to.y);
+                            });
+                            context.strokeStyle = canvasColors.minimapConnection;
+                            context.lineWidth = 1;
+                            context.stroke();
+
+                            nodes.forEach(node => {
+                                const pos = toMinimap(node.x, node.y);
+                                const size = getNodeSize(node);
+                                context.fillStyle = node.color && node.color !== '#ffffff' ? node.color : canvasColors.minimapNode;
+                                context.fillRect(pos.x, pos.y, Math.max(2, size.width * scale), Math.max(1, size.height * scale));
+                            });
+                        }}
+                    />
+                    <Rect
+                        x={visibleRect.x}
+                        y={visibleRect.y}
+                        width={visible.width * scale}
+                        height={visible.height * scale}
+                        stroke={canvasColors.selection}
+                        strokeWidth={1.5}
+                        fill={canvasColors.marqueeFill}
+                        listening={false}
+                    />
+                </Layer>
+            </Stage>
+        </MinimapContainer>
+    );
+};
+
+export default Minimap;
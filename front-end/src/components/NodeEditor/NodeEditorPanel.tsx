@@ -1,9 +1,16 @@
-import React, { useState, useEffect } from 'react';
-import { Node } from '../../types';
+import React, { useState, useEffect, useRef } from 'react';
+import { useTheme } from 'styled-components';
+import { Node, NodeShape, NodeTask } from '../../types';
+import { Alignment, DistributeAxis } from '../../utils/alignmentUtils';
+import { FONT_SIZE_OPTIONS, NODE_ICON_OPTIONS, NODE_SHAPE_OPTIONS, getNodeStyle } from '../../utils/nodeStyleUtils';
+import { TASK_PRIORITY_OPTIONS, TaskProgress, getProgressPercent } from '../../utils/taskUtils';
+import { normalizeTag } from '../../utils/tagUtils';
 import {
     NodeEditor,
     NodeEditorTitle,
     Input,
+    TextArea,
+    Select,
     Button,
     ColorPicker,
     ColorOption,
@@ -11,10 +18,33 @@ import {
 
 interface NodeEditorPanelProps {
     selectedNode: Node | null;
+    selectedNodes?: Node[];
     onNodeUpdate: (nodeId: string, updates: Partial<Node>) => void;
     onNodeDelete: (nodeId: string) => void;
+    onNodesUpdate?: (nodeIds: string[], updates: Partial<Node>) => void;
+    onNodesDelete?: (nodeIds: string[]) => void;
+    onNodesAlign?: (alignment: Alignment) => void;
+    onNodesDistribute?: (axis: DistributeAxis) => void;
+    onNodeImageAdd?: (nodeId: string, file: File) => void;
+    taskProgress?: TaskProgress; // Tasks among the descendants of the selected node
+    knownTags?: string[];        // Suggested while typing a tag
 }
 
+const alignmentOptions: { alignment: Alignment; label: string }[] = [
+    { alignment: 'left', label: '⇤ Left' },
+    { alignment: 'center', label: '↔ Center' },
+    { alignment: 'right', label: '⇥ Right' },
+    { alignment: 'top', label: '⤒ Top' },
+    { alignment: 'middle', label: '↕ Middle' },
+    { alignment: 'bottom', label: '⤓ Bottom' },
+];
+
+const textAlignOptions: { textAlign: 'left' | 'center' | 'right'; label: string; title: string }[] = [
+    { textAlign: 'left', label: '⇤', title: 'Align text left' },
+    { textAlign: 'center', label: '↔', title: 'Center text' },
+    { textAlign: 'right', label: '⇥', title: 'Align text right' },
+];
+
 const predefinedColors = [
     '#ffffff', '#fef3c7', '#fed7e2', '#ddd6fe',
     '#d1fae5', '#bfdbfe', '#fde68a', '#f9a8d4',
@@ -23,16 +53,43 @@ const predefinedColors = [
 
 const NodeEditorPanel: React.FC<NodeEditorPanelProps> = ({
     selectedNode,
+    selectedNodes = [],
     onNodeUpdate,
     onNodeDelete,
+    onNodesUpdate,
+    onNodesDelete,
+    onNodesAlign,
+    onNodesDistribute,
+    onNodeImageAdd,
+    taskProgress,
+    knownTags = [],
 }) => {
+    const theme = useTheme();
+    const colorInputStyle: React.CSSProperties = {
+        width: '2.75rem',
+        height: '2.5rem',
+        padding: 0,
+        border: `1px solid ${theme.colors.inputBorder}`,
+        borderRadius: '6px',
+        background: theme.colors.surface,
+        cursor: 'pointer',
+        flexShrink: 0,
+    };
     const [nodeText, setNodeText] = useState('');
     const [nodeColor, setNodeColor] = useState('#ffffff');
+    const [nodeLink, setNodeLink] = useState('');
+    const [nodeNote, setNodeNote] = useState('');
+    const [assignee, setAssignee] = useState('');
+    const [tagInput, setTagInput] = useState('');
+    const imageInputRef = useRef<HTMLInputElement>(null);
 
     useEffect(() => {
         if (selectedNode) {
             setNodeText(selectedNode.text);
             setNodeColor(selectedNode.color || '#ffffff');
+            setNodeLink(selectedNode.link || '');
+            setNodeNote(selectedNode.note || '');
+            setAssignee(selectedNode.task?.assignee || '');
         }
     }, [selectedNode]);
 
@@ -42,6 +99,45 @@ const NodeEditorPanel: React.FC<NodeEditorPanelProps> = ({
         }
     };
 
+    // Link and note are saved when leaving the field; clearing them saves an empty string
+    const handleLinkUpdate = () => {
+        if (selectedNode && nodeLink.trim() !== (selectedNode.link || '')) {
+            onNodeUpdate(selectedNode.id, { link: nodeLink.trim() });
+        }
+    };
+
+    const handleNoteUpdate = () => {
+        if (selectedNode && nodeNote !== (selectedNode.note || '')) {
+            onNodeUpdate(selectedNode.id, { note: nodeNote });
+        }
+    };
+
+    const handleTaskUpdate = (updates: Partial<NodeTask>) => {
+        if (selectedNode && selectedNode.task) {
+            onNodeUpdate(selectedNode.id, { task: { ...selectedNode.task, ...updates } });
+        }
+    };
+
+    const handleAssigneeUpdate = () => {
+        if (selectedNode && selectedNode.task && assignee.trim() !== (selectedNode.task.assignee || '')) {
+            handleTaskUpdate({ assignee: assignee.trim() || undefined });
+        }
+    };
+
+    const handleTagAdd = () => {
+        const tag = normalizeTag(tagInput);
+        setTagInput('');
+        if (selectedNode && tag && !(selectedNode.tags || []).includes(tag)) {
+            onNodeUpdate(selectedNode.id, { tags: [...(selectedNode.tags || []), tag] });
+        }
+    };
+
+    const handleTagRemove = (tag: string) => {
+        if (selectedNode) {
+            onNodeUpdate(selectedNode.id, { tags: (selectedNode.tags || []).filter(other => other !== tag) });
+        }
+    };
+
     const handleColorUpdate = (color: string) => {
         setNodeColor(color);
         if (selectedNode) {
@@ -55,17 +151,114 @@ const NodeEditorPanel: React.FC<NodeEditorPanelProps> = ({
         }
     };
 
+    const labelStyle: React.CSSProperties = {
+        display: 'block',
+        marginBottom: '0.5rem',
+        fontSize: '0.875rem',
+        fontWeight: '500',
+        color: theme.colors.textSecondary
+    };
+
+    // Group editing when several nodes are selected
+    if (selectedNodes.length > 1) {
+        const nodeIds = selectedNodes.map(node => node.id);
+        const sharedColor = selectedNodes.every(node => (node.color || '#ffffff') === (selectedNodes[0].color || '#ffffff'))
+            ? selectedNodes[0].color || '#ffffff'
+            : null;
+
+        return (
+            <NodeEditor>
+                <NodeEditorTitle>Edit {selectedNodes.length} Nodes</NodeEditorTitle>
+
+                {onNodesUpdate && (
+                    <div style={{ marginBottom: '1rem' }}>
+                        <label style={labelStyle}>Color:</label>
+                        <ColorPicker>
+                            {predefinedColors.map((color) => (
+                                <ColorOption
+                                    key={color}
+                                    color={color}
+                                    isSelected={sharedColor === color}
+                                    onClick={() => onNodesUpdate(nodeIds, { color })}
+                                    title={`Select ${color}`}
+                                />
+                            ))}
+                        </ColorPicker>
+                    </div>
+                )}
+
+                {onNodesAlign && (
+                    <div style={{ marginBottom: '1rem' }}>
+                        <label style={labelStyle}>Align:</label>
+                        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: '0.5rem' }}>
+                            {alignmentOptions.map(({ alignment, label }) => (
+                                <Button
+                                    key={alignment}
+                                    variant="primary"
+                                    onClick={() => onNodesAlign(alignment)}
+                                >
+                                    {label}
+                                </Button>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
+                {onNodesDistribute && (
+                    <div style={{ marginBottom: '1rem' }}>
+                        <label style={labelStyle}>Distribute evenly:</label>
+                        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(2, 1fr)', gap: '0.5rem' }}>
+                            <Button
+                                variant="primary"
+                                onClick={() => onNodesDistribute('horizontal')}
+                                disabled={selectedNodes.length < 3}
+                                title="Needs at least 3 nodes"
+                            >
+                                ⇹ Horizontally
+                            </Button>
+                            <Button
+                                variant="primary"
+                                onClick={() => onNodesDistribute('vertical')}
+                                disabled={selectedNodes.length < 3}
+                                title="Needs at least 3 nodes"
+                            >
+                                ⇳ Vertically
+                            </Button>
+                        </div>
+                    </div>
+                )}
+
+                {onNodesDelete && (
+                    <Button
+                        variant="danger"
+                        onClick={() => {
+                            if (window.confirm(`Are you sure you want to delete these ${selectedNodes.length} nodes?`)) {
+                                onNodesDelete(nodeIds);
+                            }
+                        }}
+                        style={{ width: '100%' }}
+                    >
+                        Delete {selectedNodes.length} Nodes
+                    </Button>
+                )}
+            </NodeEditor>
+        );
+    }
+
     if (!selectedNode) {
         return (
             <NodeEditor>
                 <NodeEditorTitle>Node Editor</NodeEditorTitle>
-                <p style={{ color: '#6b7280', fontSize: '0.875rem', margin: 0 }}>
-                    Select a node to edit its properties
+                <p style={{ color: theme.colors.textMuted, fontSize: '0.875rem', margin: 0 }}>
+                    Select a node to edit its properties. Shift/Ctrl-click nodes or Shift-drag
+                    on empty space to select several at once.
                 </p>
             </NodeEditor>
         );
     }
 
+    const style = getNodeStyle(selectedNode);
+
     return (
         <NodeEditor>
             <NodeEditorTitle>Edit Node</NodeEditorTitle>
@@ -76,7 +269,7 @@ const NodeEditorPanel: React.FC<NodeEditorPanelProps> = ({
                     marginBottom: '0.5rem',
                     fontSize: '0.875rem',
                     fontWeight: '500',
-                    color: '#374151'
+                    color: theme.colors.textSecondary
                 }}>
                     Text:
                 </label>
@@ -97,13 +290,187 @@ const NodeEditorPanel: React.FC<NodeEditorPanelProps> = ({
                 </Button>
             </div>
 
+            <div style={{ marginBottom: '1rem' }}>
+                <label style={labelStyle}>Icon:</label>
+                <div style={{ display: 'grid', gridTemplateColumns: 'repeat(6, 1fr)', gap: '0.25rem' }}>
+                    <Button
+                        variant="primary"
+                        onClick={() => onNodeUpdate(selectedNode.id, { icon: '' })}
+                        title="No icon"
+                        style={{ padding: '0.25rem', opacity: selectedNode.icon ? 0.5 : 1 }}
+                    >
+                        ∅
+                    </Button>
+                    {NODE_ICON_OPTIONS.map(icon => (
+                        <Button
+                            key={icon}
+                            variant="primary"
+                            onClick={() => onNodeUpdate(selectedNode.id, { icon })}
+                            style={{ padding: '0.25rem', opacity: selectedNode.icon === icon ? 1 : 0.5 }}
+                        >
+                            {icon}
+                        </Button>
+                    ))}
+                </div>
+            </div>
+
+            <div style={{ marginBottom: '1rem' }}>
+                <label style={labelStyle}>Tags:</label>
+                {(selectedNode.tags || []).length > 0 && (
+                    <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.25rem', marginBottom: '0.5rem' }}>
+                        {(selectedNode.tags || []).map(tag => (
+                            <Button
+                                key={tag}
+                                variant="primary"
+                                onClick={() => handleTagRemove(tag)}
+                                title="Remove tag"
+                                style={{ padding: '0.15rem 0.5rem', fontSize: '0.8rem' }}
+                            >
+                                #{tag} ×
+                            </Button>
+                        ))}
+                    </div>
+                )}
+                <Input
+                    type="text"
+                    list="node-tag-suggestions"
+                    value={tagInput}
+                    onChange={(e) => setTagInput(e.target.value)}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter' || e.key === ',') {
+                            e.preventDefault();
+                            handleTagAdd();
+                        }
+                    }}
+                    onBlur={() => tagInput.trim() && handleTagAdd()}
+                    placeholder="Add a tag and press Enter"
+                    style={{ marginBottom: 0 }}
+                />
+                <datalist id="node-tag-suggestions">
+                    {knownTags
+                        .filter(tag => !(selectedNode.tags || []).includes(tag))
+                        .map(tag => <option key={tag} value={tag} />)}
+                </datalist>
+            </div>
+
+            <div style={{ marginBottom: '1rem' }}>
+                <label style={{ ...labelStyle, display: 'flex', alignItems: 'center', gap: '0.5rem', cursor: 'pointer' }}>
+                    <input
+                        type="checkbox"
+                        checked={!!selectedNode.task}
+                        onChange={(e) => onNodeUpdate(selectedNode.id, { task: e.target.checked ? { done: false } : undefined })}
+                    />
+                    Task
+                </label>
+                {selectedNode.task && (
+                    <>
+                        <label style={{ ...labelStyle, display: 'flex', alignItems: 'center', gap: '0.5rem', cursor: 'pointer' }}>
+                            <input
+                                type="checkbox"
+                                checked={selectedNode.task.done}
+                                onChange={(e) => handleTaskUpdate({ done: e.target.checked })}
+                            />
+                            ✅ Done
+                        </label>
+                        <div style={{ display: 'flex', gap: '0.5rem', marginBottom: '0.5rem' }}>
+                            <Select
+                                value={selectedNode.task.priority || ''}
+                                onChange={(e) => handleTaskUpdate({ priority: e.target.value ? Number(e.target.value) : undefined })}
+                                title="Priority"
+                                style={{ margin: 0 }}
+                            >
+                                <option value="">No priority</option>
+                                {TASK_PRIORITY_OPTIONS.map(({ priority, label }) => (
+                                    <option key={priority} value={priority}>{label}</option>
+                                ))}
+                            </Select>
+                            <Input
+                                type="date"
+                                value={selectedNode.task.dueDate || ''}
+                                onChange={(e) => handleTaskUpdate({ dueDate: e.target.value || undefined })}
+                                title="Due date"
+                                style={{ margin: 0 }}
+                            />
+                        </div>
+                        <Input
+                            type="text"
+                            value={assignee}
+                            onChange={(e) => setAssignee(e.target.value)}
+                            onKeyPress={(e) => e.key === 'Enter' && handleAssigneeUpdate()}
+                            onBlur={handleAssigneeUpdate}
+                            placeholder="Assignee"
+                            style={{ marginBottom: 0 }}
+                        />
+                    </>
+                )}
+                {taskProgress && (
+                    <p style={{ color: theme.colors.textMuted, fontSize: '0.875rem', margin: '0.5rem 0 0 0' }}>
+                        Subtasks: {taskProgress.done} of {taskProgress.total} done ({getProgressPercent(taskProgress)}%)
+                    </p>
+                )}
+            </div>
+
+            {onNodeImageAdd && (
+                <div style={{ marginBottom: '1rem' }}>
+                    <label style={labelStyle}>Image:</label>
+                    <div style={{ display: 'flex', gap: '0.5rem' }}>
+                        <Button
+                            variant="primary"
+                            onClick={() => imageInputRef.current?.click()}
+                            title="You can also paste an image or drop one onto a node"
+                            style={{ flex: 1 }}
+                        >
+                            {selectedNode.image ? '🖼 Replace Image' : '🖼 Add Image'}
+                        </Button>
+                        {selectedNode.image && (
+                            <Button
+                                variant="danger"
+                                onClick={() => onNodeUpdate(selectedNode.id, { image: undefined })}
+                            >
+                                Remove
+                            </Button>
+                        )}
+                    </div>
+                    <input
+                        ref={imageInputRef}
+                        type="file"
+                        accept="image/*"
+                        style={{ display: 'none' }}
+                        onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) onNodeImageAdd(selectedNode.id, file);
+                            e.target.value = '';
+                        }}
+                    />
+                </div>
+            )}
+
+            <div style={{ marginBottom: '1rem' }}>
+                <label style={labelStyle}>Link:</label>
+                <Input
+                    type="url"
+                    value={nodeLink}
+                    onChange={(e) => setNodeLink(e.target.value)}
+                    onKeyPress={(e) => e.key === 'Enter' && handleLinkUpdate()}
+                    onBlur={handleLinkUpdate}
+                    placeholder="https://..."
+                />
+                <label style={labelStyle}>Note (Markdown):</label>
+                <TextArea
+                    value={nodeNote}
+                    onChange={(e) => setNodeNote(e.target.value)}
+                    onBlur={handleNoteUpdate}
+                    placeholder="**Bold**, *italic*, - lists, [links](https://...)"
+                />
+            </div>
+
             <div style={{ marginBottom: '1rem' }}>
                 <label style={{
                     display: 'block',
                     marginBottom: '0.5rem',
                     fontSize: '0.875rem',
                     fontWeight: '500',
-                    color: '#374151'
+                    color: theme.colors.textSecondary
                 }}>
                     Color:
                 </label>
@@ -120,13 +487,100 @@ const NodeEditorPanel: React.FC<NodeEditorPanelProps> = ({
                 </ColorPicker>
             </div>
 
+            <div style={{ marginBottom: '1rem' }}>
+                <label style={labelStyle}>Shape:</label>
+                <Select
+                    value={style.shape}
+                    onChange={(e) => onNodeUpdate(selectedNode.id, { shape: e.target.value as NodeShape })}
+                    style={{ marginBottom: '0.75rem' }}
+                >
+                    {NODE_SHAPE_OPTIONS.map(({ shape, label }) => (
+                        <option key={shape} value={shape}>{label}</option>
+                    ))}
+                </Select>
+
+                <label style={labelStyle}>Border:</label>
+                <div style={{ display: 'flex', gap: '0.5rem' }}>
+                    <input
+                        type="color"
+                        value={style.borderColor}
+                        onChange={(e) => onNodeUpdate(selectedNode.id, { borderColor: e.target.value })}
+                        title="Border color"
+                        style={colorInputStyle}
+                    />
+                    <Input
+                        type="number"
+                        min={0}
+                        max={8}
+                        value={style.borderWidth}
+                        onChange={(e) => onNodeUpdate(selectedNode.id, {
+                            borderWidth: Math.max(0, Math.min(8, Number(e.target.value))),
+                        })}
+                        title="Border width"
+                        style={{ margin: 0 }}
+                    />
+                </div>
+            </div>
+
+            <div style={{ marginBottom: '1rem' }}>
+                <label style={labelStyle}>Text style:</label>
+                <div style={{ display: 'flex', gap: '0.5rem', marginBottom: '0.5rem' }}>
+                    <input
+                        type="color"
+                        value={style.textColor}
+                        onChange={(e) => onNodeUpdate(selectedNode.id, { textColor: e.target.value })}
+                        title="Text color"
+                        style={colorInputStyle}
+                    />
+                    <Select
+                        value={style.fontSize}
+                        onChange={(e) => onNodeUpdate(selectedNode.id, { fontSize: Number(e.target.value) })}
+                        title="Font size"
+                        style={{ margin: 0 }}
+                    >
+                        {FONT_SIZE_OPTIONS.map(size => (
+                            <option key={size} value={size}>{size}px</option>
+                        ))}
+                    </Select>
+                </div>
+                <div style={{ display: 'grid', gridTemplateColumns: 'repeat(5, 1fr)', gap: '0.5rem' }}>
+                    <Button
+                        variant="primary"
+                        onClick={() => onNodeUpdate(selectedNode.id, { bold: !style.bold })}
+                        title="Bold"
+                        style={{ fontWeight: 'bold', opacity: style.bold ? 1 : 0.5 }}
+                    >
+                        B
+                    </Button>
+                    <Button
+                        variant="primary"
+                        onClick={() => onNodeUpdate(selectedNode.id, { italic: !style.italic })}
+                        title="Italic"
+                        style={{ fontStyle: 'italic', opacity: style.italic ? 1 : 0.5 }}
+                    >
+                        I
+                    </Button>
+                    {textAlignOptions.map(({ textAlign, label, title }) => (
+                        <Button
+                            key={textAlign}
+                            variant="primary"
+                            onClick={() => onNodeUpdate(selectedNode.id, { textAlign })}
+                            title={title}
+                            style={{ opacity: style.textAlign === textAlign ? 1 : 0.5 }}
+                        >
+                            {label}
+                        </Button>
+                    ))}
+                </div>
+            </div>
+
             <div style={{ marginBottom: '1rem' }}>
                 <label style={{
                     display: 'block',
                     marginBottom: '0.5rem',
                     fontSize: '0.875rem',
                     fontWeight: '500',
-                    color: '#374151'
+                    color: theme.colors.textSecondary
                 }}>
                     Position:
                 </label>
@@ -146,6 +600,22 @@ const NodeEditorPanel: React.FC<NodeEditorPanelProps> = ({
                         style={{ margin: 0 }}
                     />
                 </div>
+                <label style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '0.5rem',
+                    marginTop: '0.5rem',
+                    fontSize: '0.875rem',
+                    color: theme.colors.textSecondary,
+                    cursor: 'pointer'
+                }}>
+                    <input
+                        type="checkbox"
+                        checked={!!selectedNode.pinned}
+                        onChange={(e) => onNodeUpdate(selectedNode.id, { pinned: e.target.checked })}
+                    />
+                    📌 Pin position (force layout leaves it in place)
+                </label>
             </div>
 
             <Button
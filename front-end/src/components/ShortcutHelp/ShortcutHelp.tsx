@@ -0,0 +1,133 @@
+import React from 'react';
+import styled from 'styled-components';
+import { KEYBOARD_SHORTCUTS } from '../../utils/keyboardUtils';
+
+const Backdrop = styled.div`
+  position: fixed;
+  inset: 0;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  background: ${({ theme }) => theme.colors.backdrop};
+  z-index: 1000;
+`;
+
+const Dialog = styled.div`
+  width: min(480px, calc(100vw - 2rem));
+  max-height: calc(100vh - 4rem);
+  overflow-y: auto;
+  background: ${({ theme }) => theme.colors.surface};
+  border-radius: 12px;
+  box-shadow: 0 20px 40px ${({ theme }) => theme.colors.shadow};
+  padding: 1.5rem;
+`;
+
+const DialogHeader = styled.div`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  margin-bottom: 1rem;
+
+  h2 {
+    margin: 0;
+    font-size: 1.125rem;
+    color: ${({ theme }) => theme.colors.text};
+  }
+`;
+
+const CloseButton = styled.button`
+  background: none;
+  border: none;
+  font-size: 1.25rem;
+  color: ${({ theme }) => theme.colors.textMuted};
+  cursor: pointer;
+
+  &:hover {
+    color: ${({ theme }) => theme.colors.text};
+  }
+`;
+
+const GroupTitle = styled.h3`
+  margin: 1rem 0 0.5rem;
+  font-size: 0.75rem;
+  text-transform: uppercase;
+  letter-spacing: 0.05em;
+  color: ${({ theme }) => theme.colors.textMuted};
+`;
+
+const ShortcutRow = styled.div`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  gap: 1rem;
+  padding: 0.35rem 0;
+  font-size: 0.875rem;
+  color: ${({ theme }) => theme.colors.textSecondary};
+  border-bottom: 1px solid ${({ theme }) => theme.colors.border};
+`;
+
+const Key = styled.kbd`
+  display: inline-block;
+  min-width: 1.5rem;
+  margin-left: 0.25rem;
+  padding: 0.1rem 0.4rem;
+  border: 1px solid ${({ theme }) => theme.colors.inputBorder};
+  border-bottom-width: 2px;
+  border-radius: 4px;
+  background: ${({ theme }) => theme.colors.surfaceMuted};
+  font-family: inherit;
+  font-size: 0.75rem;
+  text-align: center;
+  white-space: nowrap;
+`;
+
+const Hint = styled.div`
+  font-size: 0.8rem;
+  color: ${({ theme }) => theme.colors.textMuted};
+`;
+
+interface ShortcutHelpProps {
+    onClose: () => void;
+}
+
+const ShortcutHelp: React.FC<ShortcutHelpProps> = ({ onClose }) => {
+    React.useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape' || e.key === '?') {
+                e.preventDefault();
+                e.stopImmediatePropagation();
+                onClose();
+            }
+        };
+        // Capture phase, so closing the overlay does not also clear the selection
+        window.addEventListener('keydown', handleKeyDown, true);
+        return () => window.removeEventListener('keydown', handleKeyDown, true);
+    }, [onClose]);
+
+    return (
+        <Backdrop data-export-hide onClick={onClose}>
+            <Dialog role="dialog" aria-label="Keyboard shortcuts" onClick={(e) => e.stopPropagation()}>
+                <DialogHeader>
+                    <h2>⌨️ Keyboard Shortcuts</h2>
+                    <CloseButton onClick={onClose} title="Close">×</CloseButton>
+                </DialogHeader>
+                <Hint>Shortcuts are paused while you type in a text field.</Hint>
+                {KEYBOARD_SHORTCUTS.map(({ group, shortcuts }) => (
+                    <div key={group}>
+                        <GroupTitle>{group}</GroupTitle>
+                        {shortcuts.map(({ keys, description }) => (
+                            <ShortcutRow key={description}>
+                                <span>{description}</span>
+                                <span>
+                                    {keys.map(key => <Key key={key}>{key}</Key>)}
+                                </span>
+                            </ShortcutRow>
+                        ))}
+                    </div>
+                ))}
+            </Dialog>
+        </Backdrop>
+    );
+};
+
+export default ShortcutHelp;
@@ -0,0 +1,104 @@
+import React from 'react';
+import styled from 'styled-components';
+import { TagFilter } from '../../utils/tagUtils';
+
+const FilterBarContainer = styled.div`
+  position: absolute;
+  top: 1rem;
+  left: 1rem;
+  display: flex;
+  flex-wrap: wrap;
+  gap: 0.25rem;
+  align-items: center;
+  width: fit-content;
+  max-width: calc(100% - 2rem);
+  background: ${({ theme }) => theme.colors.surfaceOverlay};
+  border: 1px solid ${({ theme }) => theme.colors.border};
+  border-radius: 8px;
+  padding: 0.25rem;
+  box-shadow: 0 2px 10px ${({ theme }) => theme.colors.shadow};
+  z-index: 10;
+`;
+
+const FilterLabel = styled.span`
+  padding: 0 0.25rem;
+  font-size: 0.8rem;
+  color: ${({ theme }) => theme.colors.textMuted};
+`;
+
+const FilterChip = styled.button<{ active: boolean }>`
+  border: 1px solid ${({ theme, active }) => (active ? theme.colors.primary : theme.colors.inputBorder)};
+  border-radius: 999px;
+  padding: 0.15rem 0.6rem;
+  font-size: 0.8rem;
+  background: ${({ theme, active }) => (active ? theme.colors.primary : 'transparent')};
+  color: ${({ theme, active }) => (active ? theme.colors.primaryText : theme.colors.textSecondary)};
+  cursor: pointer;
+  transition: all 0.2s ease;
+
+  &:hover {
+    border-color: ${({ theme }) => theme.colors.primary};
+  }
+`;
+
+const FilterOption = styled.button`
+  background: none;
+  border: none;
+  border-radius: 6px;
+  padding: 0.25rem 0.5rem;
+  font-size: 0.8rem;
+  color: ${({ theme }) => theme.colors.textSecondary};
+  cursor: pointer;
+
+  &:hover {
+    background: ${({ theme }) => theme.colors.surfaceHover};
+  }
+`;
+
+interface TagFilterBarProps {
+    tags: string[];          // Tags used in the current map
+    filter: TagFilter;
+    onFilterChange: (filter: TagFilter) => void;
+}
+
+// Tag chips over the canvas; picking some dims or hides the nodes that do not carry them
+const TagFilterBar: React.FC<TagFilterBarProps> = ({ tags, filter, onFilterChange }) => {
+    const toggleTag = (tag: string) => {
+        const selected = filter.tags.includes(tag)
+            ? filter.tags.filter(other => other !== tag)
+            : [...filter.tags, tag];
+        onFilterChange({ ...filter, tags: selected });
+    };
+
+    return (
+        <FilterBarContainer data-export-hide>
+            <FilterLabel>🏷</FilterLabel>
+            {tags.map(tag => (
+                <FilterChip key={tag} active={filter.tags.includes(tag)} onClick={() => toggleTag(tag)}>
+                    #{tag}
+                </FilterChip>
+            ))}
+            {filter.tags.length > 0 && (
+                <>
+                    <FilterOption
+                        onClick={() => onFilterChange({ ...filter, mode: filter.mode === 'and' ? 'or' : 'and' })}
+                        title={filter.mode === 'and' ? 'Nodes need all picked tags' : 'Nodes need any of the picked tags'}
+                    >
+                        {filter.mode === 'and' ? 'Match: All (AND)' : 'Match: Any (OR)'}
+                    </FilterOption>
+                    <FilterOption
+                        onClick={() => onFilterChange({ ...filter, display: filter.display === 'dim' ? 'hide' : 'dim' })}
+                        title="What happens to nodes that do not match"
+                    >
+                        {filter.display === 'dim' ? '🌫 Dim others' : '🙈 Hide others'}
+                    </FilterOption>
+                    <FilterOption onClick={() => onFilterChange({ ...filter, tags: [] })} title="Show all nodes">
+                        ✕ Clear
+                    </FilterOption>
+                </>
+            )}
+        </FilterBarContainer>
+    );
+};
+
+export default TagFilterBar;
@@ -0,0 +1,64 @@
+import React from 'react';
+import { MapTheme } from '../../types';
+import { BUILT_IN_THEMES } from '../../utils/mapThemeUtils';
+import { HeaderSelect } from '../styled/GlobalStyles';
+
+interface ThemeControlsProps {
+    theme: MapTheme;
+    customThemes: MapTheme[];
+    onThemeChange: (themeId: string) => void;
+    onThemeSave: (name: string) => void;
+    onThemeDelete: (themeId: string) => void;
+    disabled?: boolean;
+}
+
+const SAVE_ACTION = 'action:save';
+const DELETE_ACTION = 'action:delete';
+
+const ThemeControls: React.FC<ThemeControlsProps> = ({
+    theme,
+    customThemes,
+    onThemeChange,
+    onThemeSave,
+    onThemeDelete,
+    disabled = false,
+}) => {
+    const handleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        const value = e.target.value;
+        if (value === SAVE_ACTION) {
+            const name = window.prompt('Name for the new theme:', `${theme.name} (custom)`);
+            if (name && name.trim()) {
+                onThemeSave(name.trim());
+            }
+        } else if (value === DELETE_ACTION) {
+            if (window.confirm(`Are you sure you want to delete the theme "${theme.name}"?`)) {
+                onThemeDelete(theme.id);
+            }
+        } else {
+            onThemeChange(value);
+        }
+    };
+
+    return (
+        <HeaderSelect value={theme.id} onChange={handleChange} disabled={disabled} title="Map theme">
+            <optgroup label="Themes">
+                {BUILT_IN_THEMES.map(({ id, name }) => (
+                    <option key={id} value={id}>🎨 {name}</option>
+                ))}
+            </optgroup>
+            {customThemes.length > 0 && (
+                <optgroup label="My themes">
+                    {customThemes.map(({ id, name }) => (
+                        <option key={id} value={id}>🎨 {name}</option>
+                    ))}
+                </optgroup>
+            )}
+            <optgroup label="Manage">
+                <option value={SAVE_ACTION}>💾 Save current styles as theme…</option>
+                {theme.custom && <option value={DELETE_ACTION}>🗑 Delete this theme</option>}
+            </optgroup>
+        </HeaderSelect>
+    );
+};
+
+export default ThemeControls;
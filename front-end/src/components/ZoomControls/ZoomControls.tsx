@@ -0,0 +1,96 @@
+import React from 'react';
+import styled, { useTheme } from 'styled-components';
+
+const ZoomControlsContainer = styled.div`
+  position: absolute;
+  right: 1rem;
+  bottom: 1rem;
+  display: flex;
+  gap: 0.25rem;
+  align-items: center;
+  background: ${({ theme }) => theme.colors.surfaceOverlay};
+  border: 1px solid ${({ theme }) => theme.colors.border};
+  border-radius: 8px;
+  padding: 0.25rem;
+  box-shadow: 0 2px 10px ${({ theme }) => theme.colors.shadow};
+  z-index: 10;
+`;
+
+const ZoomButton = styled.button`
+  background: none;
+  border: none;
+  border-radius: 6px;
+  padding: 0.25rem 0.5rem;
+  font-size: 0.8rem;
+  color: ${({ theme }) => theme.colors.textSecondary};
+  cursor: pointer;
+  transition: all 0.2s ease;
+
+  &:hover:not(:disabled) {
+    background: ${({ theme }) => theme.colors.surfaceHover};
+  }
+
+  &:disabled {
+    color: ${({ theme }) => theme.colors.textDisabled};
+    cursor: default;
+  }
+`;
+
+const ZoomLevel = styled.span`
+  min-width: 3rem;
+  text-align: center;
+  font-size: 0.8rem;
+  color: ${({ theme }) => theme.colors.textMuted};
+`;
+
+interface ZoomControlsProps {
+    scale: number;
+    onZoomIn: () => void;
+    onZoomOut: () => void;
+    onZoomToFit: () => void;
+    onZoomToSelection: () => void;
+    hasSelection: boolean;
+    showGrid?: boolean;
+    onToggleGrid?: () => void;
+}
+
+const ZoomControls: React.FC<ZoomControlsProps> = ({
+    scale,
+    onZoomIn,
+    onZoomOut,
+    onZoomToFit,
+    onZoomToSelection,
+    hasSelection,
+    showGrid = false,
+    onToggleGrid,
+}) => {
+    const theme = useTheme();
+    return (
+        <ZoomControlsContainer data-export-hide>
+            <ZoomButton onClick={onZoomOut} title="Zoom out">−</ZoomButton>
+            <ZoomLevel>{Math.round(scale * 100)}%</ZoomLevel>
+            <ZoomButton onClick={onZoomIn} title="Zoom in">+</ZoomButton>
+            <ZoomButton onClick={onZoomToFit} title="Zoom to fit the whole map">
+                ⤢ Fit
+            </ZoomButton>
+            <ZoomButton
+                onClick={onZoomToSelection}
+                disabled={!hasSelection}
+                title="Zoom to the selected node"
+            >
+                🎯 Selection
+            </ZoomButton>
+            {onToggleGrid && (
+                <ZoomButton
+                    onClick={onToggleGrid}
+                    title={showGrid ? 'Hide the grid and stop snapping to it' : 'Show a grid and snap dragged nodes to it'}
+                    style={showGrid ? { background: theme.colors.primarySoft, color: theme.colors.primary } : undefined}
+                >
+                    # Grid
+                </ZoomButton>
+            )}
+        </ZoomControlsContainer>
+    );
+};
+
+export default ZoomControls;
@@ -2,18 +2,18 @@ import styled from 'styled-components';
 
 export const AppContainer = styled.div`
   min-height: 100vh;
-  background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+  background: ${({ theme }) => theme.colors.appBackground};
   font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', 'Roboto', sans-serif;
 `;
 
 export const Header = styled.header`
-  background: rgba(255, 255, 255, 0.1);
+  background: ${({ theme }) => theme.colors.headerBackground};
   backdrop-filter: blur(10px);
   padding: 1rem 2rem;
   display: flex;
   justify-content: space-between;
   align-items: center;
-  box-shadow: 0 2px 20px rgba(0, 0, 0, 0.1);
+  box-shadow: 0 2px 20px ${({ theme }) => theme.colors.shadow};
 
   @media (max-width: 768px) {
     padding: 0.75rem 1rem;
@@ -23,7 +23,7 @@ export const Header = styled.header`
 `;
 
 export const HeaderTitle = styled.h1`
-  color: white;
+  color: ${({ theme }) => theme.colors.headerText};
   margin: 0;
   font-size: 1.8rem;
   font-weight: 600;
@@ -59,31 +59,65 @@ export const Button = styled.button<{ variant?: 'primary' | 'secondary' | 'dange
     font-size: 0.8rem;
   }
   
-  ${props => {
-    switch (props.variant) {
+  ${({ variant, theme }) => {
+    switch (variant) {
       case 'primary':
         return `
-          background: #4f46e5;
-          color: white;
-          &:hover { background: #4338ca; }
+          background: ${theme.colors.primary};
+          color: ${theme.colors.primaryText};
+          &:hover { background: ${theme.colors.primaryHover}; }
         `;
       case 'danger':
         return `
-          background: #ef4444;
+          background: ${theme.colors.danger};
           color: white;
-          &:hover { background: #dc2626; }
+          &:hover { background: ${theme.colors.dangerHover}; }
         `;
       default:
         return `
-          background: rgba(255, 255, 255, 0.2);
-          color: white;
+          background: ${theme.colors.control};
+          color: ${theme.colors.controlText};
+          box-shadow: inset 0 0 0 1px ${theme.colors.controlBorder};
           backdrop-filter: blur(10px);
-          &:hover { background: rgba(255, 255, 255, 0.3); }
+          &:hover { background: ${theme.colors.controlHover}; }
         `;
     }
   }}
 `;
 
+// Compact dropdown matching the header buttons
+export const HeaderSelect = styled.select`
+  padding: 0.5rem 0.75rem;
+  border: none;
+  border-radius: 8px;
+  font-weight: 500;
+  font-size: 0.8rem;
+  cursor: pointer;
+  background: ${({ theme }) => theme.colors.control};
+  color: ${({ theme }) => theme.colors.controlText};
+  box-shadow: inset 0 0 0 1px ${({ theme }) => theme.colors.controlBorder};
+  backdrop-filter: blur(10px);
+
+  &:hover:not(:disabled) {
+    background: ${({ theme }) => theme.colors.controlHover};
+  }
+
+  &:disabled {
+    cursor: default;
+    opacity: 0.6;
+  }
+
+  option {
+    color: ${({ theme }) => theme.colors.text};
+    background: ${({ theme }) => theme.colors.surface};
+  }
+
+  @media (max-width: 768px) {
+    padding: 0.4rem 0.6rem;
+    font-size: 0.75rem;
+  }
+`;
+
 export const MainContent = styled.main`
   padding: 2rem;
   min-height: calc(100vh - 80px);
@@ -95,9 +129,9 @@ export const MainContent = styled.main`
 `;
 
 export const CanvasContainer = styled.div`
-  background: white;
+  background: ${({ theme }) => theme.colors.surface};
   border-radius: 12px;
-  box-shadow: 0 10px 40px rgba(0, 0, 0, 0.1);
+  box-shadow: 0 10px 40px ${({ theme }) => theme.colors.shadow};
   overflow: hidden;
   position: relative;
   height: 600px;
@@ -115,9 +149,9 @@ export const Sidebar = styled.aside<{ isOpen: boolean }>`
   right: ${props => props.isOpen ? '0' : '-400px'};
   width: 400px;
   height: 100vh;
-  background: rgba(255, 255, 255, 0.95);
+  background: ${({ theme }) => theme.colors.surfaceOverlay};
   backdrop-filter: blur(10px);
-  box-shadow: -5px 0 20px rgba(0, 0, 0, 0.1);
+  box-shadow: -5px 0 20px ${({ theme }) => theme.colors.shadow};
   padding: 2rem;
   transition: right 0.3s ease;
   z-index: 1000;
@@ -136,12 +170,12 @@ export const SidebarHeader = styled.div`
   align-items: center;
   margin-bottom: 1.5rem;
   padding-bottom: 1rem;
-  border-bottom: 1px solid #e5e7eb;
+  border-bottom: 1px solid ${({ theme }) => theme.colors.border};
 `;
 
 export const SidebarTitle = styled.h2`
   margin: 0;
-  color: #1f2937;
+  color: ${({ theme }) => theme.colors.text};
   font-size: 1.25rem;
 
   @media (max-width: 768px) {
@@ -154,8 +188,8 @@ export const CloseButton = styled.button`
   border: none;
   font-size: 1.5rem;
   cursor: pointer;
-  color: #6b7280;
-  &:hover { color: #374151; }
+  color: ${({ theme }) => theme.colors.textMuted};
+  &:hover { color: ${({ theme }) => theme.colors.textSecondary}; }
 `;
 
 export const MapList = styled.div`
@@ -165,27 +199,27 @@ export const MapList = styled.div`
 `;
 
 export const MapCard = styled.div`
-  background: white;
-  border: 1px solid #e5e7eb;
+  background: ${({ theme }) => theme.colors.surface};
+  border: 1px solid ${({ theme }) => theme.colors.border};
   border-radius: 8px;
   padding: 1rem;
   cursor: pointer;
   transition: all 0.2s ease;
   
   &:hover {
-    border-color: #4f46e5;
-    box-shadow: 0 4px 12px rgba(79, 70, 229, 0.15);
+    border-color: ${({ theme }) => theme.colors.primary};
+    box-shadow: 0 0 0 3px ${({ theme }) => theme.colors.focusRing};
   }
 `;
 
 export const MapTitle = styled.h3`
   margin: 0 0 0.5rem 0;
-  color: #1f2937;
+  color: ${({ theme }) => theme.colors.text};
   font-size: 1rem;
 `;
 
 export const MapMeta = styled.div`
-  color: #6b7280;
+  color: ${({ theme }) => theme.colors.textMuted};
   font-size: 0.875rem;
   display: flex;
   justify-content: space-between;
@@ -194,21 +228,63 @@ export const MapMeta = styled.div`
 
 export const Input = styled.input`
   width: 100%;
+  background: ${({ theme }) => theme.colors.surface};
   padding: 0.75rem;
-  border: 1px solid #d1d5db;
+  border: 1px solid ${({ theme }) => theme.colors.inputBorder};
   border-radius: 6px;
   font-size: 0.875rem;
   margin-bottom: 1rem;
+  color: ${({ theme }) => theme.colors.text};
   
   &:focus {
     outline: none;
-    border-color: #4f46e5;
-    box-shadow: 0 0 0 3px rgba(79, 70, 229, 0.1);
+    border-color: ${({ theme }) => theme.colors.primary};
+    box-shadow: 0 0 0 3px ${({ theme }) => theme.colors.focusRing};
+  }
+`;
+
+// Multi-line Input, e.g. for node notes
+export const TextArea = styled.textarea`
+  width: 100%;
+  min-height: 6rem;
+  background: ${({ theme }) => theme.colors.surface};
+  padding: 0.75rem;
+  border: 1px solid ${({ theme }) => theme.colors.inputBorder};
+  border-radius: 6px;
+  font-family: inherit;
+  font-size: 0.875rem;
+  margin-bottom: 1rem;
+  color: ${({ theme }) => theme.colors.text};
+  resize: vertical;
+
+  &:focus {
+    outline: none;
+    border-color: ${({ theme }) => theme.colors.primary};
+    box-shadow: 0 0 0 3px ${({ theme }) => theme.colors.focusRing};
+  }
+`;
+
+// Dropdown styled like Input, for the editor panels
+export const Select = styled.select`
+  width: 100%;
+  padding: 0.75rem;
+  border: 1px solid ${({ theme }) => theme.colors.inputBorder};
+  border-radius: 6px;
+  font-size: 0.875rem;
+  margin-bottom: 1rem;
+  color: ${({ theme }) => theme.colors.text};
+  background: ${({ theme }) => theme.colors.surface};
+
+  &:focus {
+    outline: none;
+    border-color: ${({ theme }) => theme.colors.primary};
+    box-shadow: 0 0 0 3px ${({ theme }) => theme.colors.focusRing};
   }
 `;
 
 export const NodeEditor = styled.div`
-  background: #f9fafb;
+  background: ${({ theme }) => theme.colors.surfaceMuted};
+  color: ${({ theme }) => theme.colors.textSecondary};
   border-radius: 8px;
   padding: 1rem;
   margin-bottom: 1rem;
@@ -216,7 +292,7 @@ export const NodeEditor = styled.div`
 
 export const NodeEditorTitle = styled.h4`
   margin: 0 0 0.75rem 0;
-  color: #374151;
+  color: ${({ theme }) => theme.colors.textSecondary};
   font-size: 0.875rem;
   font-weight: 600;
 `;
@@ -237,7 +313,7 @@ export const ColorOption = styled.button<{ color: string; isSelected: boolean }>
   width: 30px;
   height: 30px;
   border-radius: 50%;
-  border: 2px solid ${props => props.isSelected ? '#4f46e5' : '#d1d5db'};
+  border: 2px solid ${({ isSelected, theme }) => isSelected ? theme.colors.primary : theme.colors.inputBorder};
   background: ${props => props.color};
   cursor: pointer;
   transition: all 0.2s ease;
@@ -262,8 +338,8 @@ export const LoadingSpinner = styled.div`
     content: '';
     width: 40px;
     height: 40px;
-    border: 4px solid #f3f4f6;
-    border-top: 4px solid #4f46e5;
+    border: 4px solid ${({ theme }) => theme.colors.surfaceHover};
+    border-top: 4px solid ${({ theme }) => theme.colors.primary};
     border-radius: 50%;
     animation: spin 1s linear infinite;
   }
@@ -275,27 +351,27 @@ export const LoadingSpinner = styled.div`
 `;
 
 export const ErrorMessage = styled.div`
-  background: #fef2f2;
-  color: #dc2626;
+  background: ${({ theme }) => theme.colors.errorBackground};
+  color: ${({ theme }) => theme.colors.errorText};
   padding: 1rem;
   border-radius: 6px;
-  border: 1px solid #fecaca;
+  border: 1px solid ${({ theme }) => theme.colors.errorBorder};
   margin-bottom: 1rem;
   text-align: center;
 `;
 
 export const SuccessMessage = styled.div`
-  background: #f0fdf4;
-  color: #16a34a;
+  background: ${({ theme }) => theme.colors.successBackground};
+  color: ${({ theme }) => theme.colors.successText};
   padding: 1rem;
   border-radius: 6px;
-  border: 1px solid #bbf7d0;
+  border: 1px solid ${({ theme }) => theme.colors.successBorder};
   margin-bottom: 1rem;
   text-align: center;
 `;
 
 export const ConnectionLegend = styled.div`
-  background: rgba(255, 255, 255, 0.9);
+  background: ${({ theme }) => theme.colors.surfaceOverlay};
   backdrop-filter: blur(10px);
   border-radius: 8px;
   padding: 1rem;
@@ -304,7 +380,7 @@ export const ConnectionLegend = styled.div`
   gap: 2rem;
   align-items: center;
   justify-content: center;
-  box-shadow: 0 2px 10px rgba(0, 0, 0, 0.1);
+  box-shadow: 0 2px 10px ${({ theme }) => theme.colors.shadow};
 
   @media (max-width: 768px) {
     flex-direction: column;
@@ -317,7 +393,7 @@ export const LegendItem = styled.div`
   align-items: center;
   gap: 0.75rem;
   font-size: 0.875rem;
-  color: #374151;
+  color: ${({ theme }) => theme.colors.textSecondary};
 `;
 
 export const LegendLine = styled.div<{ type: 'parent-child' | 'regular' }>`
@@ -325,14 +401,13 @@ export const LegendLine = styled.div<{ type: 'parent-child' | 'regular' }>`
   height: 3px;
   border-radius: 2px;
   
-  ${props => props.type === 'parent-child' ? `
-    background: #10b981;
+  ${({ type, theme }) => type === 'parent-child' ? `
+    background: ${theme.canvas.parentChildConnection};
   ` : `
-    background: #6b7280;
     background-image: repeating-linear-gradient(
       90deg,
-      #6b7280,
-      #6b7280 5px,
+      ${theme.canvas.regularConnection},
+      ${theme.canvas.regularConnection} 5px,
       transparent 5px,
       transparent 10px
     );
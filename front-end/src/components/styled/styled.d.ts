@@ -0,0 +1,7 @@
+import 'styled-components';
+import { AppTheme } from './theme';
+
+// Lets styled components read the app theme tokens with type checking
+declare module 'styled-components' {
+    export interface DefaultTheme extends AppTheme {}
+}
@@ -0,0 +1,250 @@
+export type AppThemeName = 'light' | 'dark' | 'high-contrast';
+// What the user picked; 'system' follows the operating system setting
+export type AppThemePreference = AppThemeName | 'system';
+
+export interface AppTheme {
+    name: AppThemeName;
+    colors: {
+        appBackground: string;
+        headerBackground: string;
+        headerText: string;
+        control: string;        // Buttons and dropdowns in the header
+        controlHover: string;
+        controlText: string;
+        controlBorder: string;
+        surface: string;        // Canvas frame, cards and dialogs
+        surfaceOverlay: string; // Panels floating over other content
+        surfaceMuted: string;
+        surfaceHover: string;
+        text: string;
+        textSecondary: string;
+        textMuted: string;
+        textDisabled: string;
+        border: string;
+        inputBorder: string;
+        primary: string;
+        primaryHover: string;
+        primaryText: string;
+        primarySoft: string;
+        danger: string;
+        dangerHover: string;
+        focusRing: string;
+        errorBackground: string;
+        errorText: string;
+        errorBorder: string;
+        successBackground: string;
+        successText: string;
+        successBorder: string;
+        shadow: string;
+        backdrop: string;
+    };
+    // Colors MindMapCanvas and the minimap draw with where a map does not set its own
+    canvas: {
+        background: string;
+        grid: string;
+        nodeFill: string;
+        nodeStroke: string;
+        nodeText: string;
+        selection: string;
+        marqueeFill: string;
+        searchHighlight: string; // Behind nodes matching the find box
+        parentChildConnection: string;
+        regularConnection: string;
+        valid: string;          // Allowed drop or connection target
+        invalid: string;
+        guide: string;
+        labelBackground: string;
+        labelText: string;
+        handleFill: string;
+        minimapNode: string;
+        minimapConnection: string;
+    };
+}
+
+export const lightTheme: AppTheme = {
+    name: 'light',
+    colors: {
+        appBackground: 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
+        headerBackground: 'rgba(255, 255, 255, 0.1)',
+        headerText: 'white',
+        control: 'rgba(255, 255, 255, 0.2)',
+        controlHover: 'rgba(255, 255, 255, 0.3)',
+        controlText: 'white',
+        controlBorder: 'transparent',
+        surface: 'white',
+        surfaceOverlay: 'rgba(255, 255, 255, 0.95)',
+        surfaceMuted: '#f9fafb',
+        surfaceHover: '#f3f4f6',
+        text: '#1f2937',
+        textSecondary: '#374151',
+        textMuted: '#6b7280',
+        textDisabled: '#9ca3af',
+        border: '#e5e7eb',
+        inputBorder: '#d1d5db',
+        primary: '#4f46e5',
+        primaryHover: '#4338ca',
+        primaryText: 'white',
+        primarySoft: '#eef2ff',
+        danger: '#ef4444',
+        dangerHover: '#dc2626',
+        focusRing: 'rgba(79, 70, 229, 0.1)',
+        errorBackground: '#fef2f2',
+        errorText: '#dc2626',
+        errorBorder: '#fecaca',
+        successBackground: '#f0fdf4',
+        successText: '#16a34a',
+        successBorder: '#bbf7d0',
+        shadow: 'rgba(0, 0, 0, 0.1)',
+        backdrop: 'rgba(17, 24, 39, 0.45)',
+    },
+    canvas: {
+        background: '#ffffff',
+        grid: '#eef0f4',
+        nodeFill: '#ffffff',
+        nodeStroke: '#d1d5db',
+        nodeText: '#1f2937',
+        selection: '#4f46e5',
+        marqueeFill: 'rgba(79, 70, 229, 0.08)',
+        searchHighlight: '#fde047',
+        parentChildConnection: '#10b981',
+        regularConnection: '#6b7280',
+        valid: '#10b981',
+        invalid: '#ef4444',
+        guide: '#ec4899',
+        labelBackground: '#ffffff',
+        labelText: '#374151',
+        handleFill: '#ffffff',
+        minimapNode: '#c7d2fe',
+        minimapConnection: '#9ca3af',
+    },
+};
+
+export const darkTheme: AppTheme = {
+    name: 'dark',
+    colors: {
+        appBackground: 'linear-gradient(135deg, #1e1b4b 0%, #312e81 100%)',
+        headerBackground: 'rgba(0, 0, 0, 0.25)',
+        headerText: '#f9fafb',
+        control: 'rgba(255, 255, 255, 0.12)',
+        controlHover: 'rgba(255, 255, 255, 0.2)',
+        controlText: '#f9fafb',
+        controlBorder: 'transparent',
+        surface: '#1f2937',
+        surfaceOverlay: 'rgba(31, 41, 55, 0.95)',
+        surfaceMuted: '#111827',
+        surfaceHover: '#374151',
+        text: '#f9fafb',
+        textSecondary: '#e5e7eb',
+        textMuted: '#9ca3af',
+        textDisabled: '#6b7280',
+        border: '#374151',
+        inputBorder: '#4b5563',
+        primary: '#6366f1',
+        primaryHover: '#818cf8',
+        primaryText: 'white',
+        primarySoft: '#312e81',
+        danger: '#ef4444',
+        dangerHover: '#f87171',
+        focusRing: 'rgba(129, 140, 248, 0.3)',
+        errorBackground: '#450a0a',
+        errorText: '#fca5a5',
+        errorBorder: '#7f1d1d',
+        successBackground: '#052e16',
+        successText: '#86efac',
+        successBorder: '#14532d',
+        shadow: 'rgba(0, 0, 0, 0.4)',
+        backdrop: 'rgba(0, 0, 0, 0.6)',
+    },
+    canvas: {
+        background: '#111827',
+        grid: '#1f2937',
+        nodeFill: '#1f2937',
+        nodeStroke: '#4b5563',
+        nodeText: '#f9fafb',
+        selection: '#818cf8',
+        marqueeFill: 'rgba(129, 140, 248, 0.15)',
+        searchHighlight: '#facc15',
+        parentChildConnection: '#34d399',
+        regularConnection: '#9ca3af',
+        valid: '#34d399',
+        invalid: '#f87171',
+        guide: '#f472b6',
+        labelBackground: '#1f2937',
+        labelText: '#e5e7eb',
+        handleFill: '#111827',
+        minimapNode: '#6366f1',
+        minimapConnection: '#6b7280',
+    },
+};
+
+// Pure black and white with saturated accents, for low vision and bright screens
+export const highContrastTheme: AppTheme = {
+    name: 'high-contrast',
+    colors: {
+        appBackground: '#000000',
+        headerBackground: '#000000',
+        headerText: '#ffffff',
+        control: '#000000',
+        controlHover: '#333333',
+        controlText: '#ffffff',
+        controlBorder: '#ffffff',
+        surface: '#000000',
+        surfaceOverlay: '#000000',
+        surfaceMuted: '#000000',
+        surfaceHover: '#333333',
+        text: '#ffffff',
+        textSecondary: '#ffffff',
+        textMuted: '#e0e0e0',
+        textDisabled: '#a0a0a0',
+        border: '#ffffff',
+        inputBorder: '#ffffff',
+        primary: '#ffff00',
+        primaryHover: '#ffff80',
+        primaryText: '#000000',
+        primarySoft: '#333300',
+        danger: '#c00000',
+        dangerHover: '#e00000',
+        focusRing: 'rgba(255, 255, 0, 0.6)',
+        errorBackground: '#000000',
+        errorText: '#ff6060',
+        errorBorder: '#ff6060',
+        successBackground: '#000000',
+        successText: '#00ff00',
+        successBorder: '#00ff00',
+        shadow: 'rgba(0, 0, 0, 0)',
+        backdrop: 'rgba(0, 0, 0, 0.8)',
+    },
+    canvas: {
+        background: '#000000',
+        grid: '#333333',
+        nodeFill: '#000000',
+        nodeStroke: '#ffffff',
+        nodeText: '#ffffff',
+        selection: '#ffff00',
+        marqueeFill: 'rgba(255, 255, 0, 0.15)',
+        searchHighlight: '#00ffff',
+        parentChildConnection: '#00ff00',
+        regularConnection: '#ffffff',
+        valid: '#00ff00',
+        invalid: '#ff4040',
+        guide: '#ff00ff',
+        labelBackground: '#000000',
+        labelText: '#ffffff',
+        handleFill: '#000000',
+        minimapNode: '#ffffff',
+        minimapConnection: '#ffffff',
+    },
+};
+
+export const APP_THEMES: { [name in AppThemeName]: AppTheme } = {
+    light: lightTheme,
+    dark: darkTheme,
+    'high-contrast': highContrastTheme,
+};
+
+export const APP_THEME_OPTIONS: { preference: AppThemePreference; label: string }[] = [
+    { preference: 'system', label: '💻 System' },
+    { preference: 'light', label: '☀️ Light' },
+    { preference: 'dark', label: '🌙 Dark' },
+    { preference: 'high-contrast', label: '◐ High contrast' },
+];
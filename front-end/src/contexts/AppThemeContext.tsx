@@ -0,0 +1,75 @@
+import React, { createContext, useContext, useState, useEffect } from 'react';
+import { ThemeProvider } from 'styled-components';
+import { APP_THEMES, AppTheme, AppThemeName, AppThemePreference } from '../components/styled/theme';
+import { localStorageService } from '../services/localStorage';
+import { useUser } from './UserContext';
+
+interface AppThemeContextType {
+    theme: AppTheme;
+    preference: AppThemePreference;
+    setPreference: (preference: AppThemePreference) => void;
+}
+
+const AppThemeContext = createContext<AppThemeContextType | undefined>(undefined);
+
+export const useAppTheme = () => {
+    const context = useContext(AppThemeContext);
+    if (context === undefined) {
+        throw new Error('useAppTheme must be used within an AppThemeProvider');
+    }
+    return context;
+};
+
+const DARK_QUERY = '(prefers-color-scheme: dark)';
+const CONTRAST_QUERY = '(prefers-contrast: more)';
+
+// Theme matching the operating system's contrast and color scheme settings
+const getSystemThemeName = (): AppThemeName => {
+    if (!window.matchMedia) return 'light';
+    if (window.matchMedia(CONTRAST_QUERY).matches) return 'high-contrast';
+    return window.matchMedia(DARK_QUERY).matches ? 'dark' : 'light';
+};
+
+interface AppThemeProviderProps {
+    children: React.ReactNode;
+}
+
+export const AppThemeProvider: React.FC<AppThemeProviderProps> = ({ children }) => {
+    const { user } = useUser();
+    const [preference, setPreferenceState] = useState<AppThemePreference>('system');
+    const [systemThemeName, setSystemThemeName] = useState<AppThemeName>(getSystemThemeName);
+
+    // Each user keeps their own choice; switching users loads theirs
+    useEffect(() => {
+        setPreferenceState(localStorageService.getAppThemePreference() || 'system');
+    }, [user]);
+
+    // Follow changes of the system setting while it is in use
+    useEffect(() => {
+        if (!window.matchMedia) return;
+        const queries = [window.matchMedia(DARK_QUERY), window.matchMedia(CONTRAST_QUERY)];
+        const handleChange = () => setSystemThemeName(getSystemThemeName());
+        queries.forEach(query => query.addEventListener?.('change', handleChange));
+        return () => queries.forEach(query => query.removeEventListener?.('change', handleChange));
+    }, []);
+
+    const setPreference = (newPreference: AppThemePreference) => {
+        setPreferenceState(newPreference);
+        localStorageService.saveAppThemePreference(newPreference);
+    };
+
+    const theme = APP_THEMES[preference === 'system' ? systemThemeName : preference];
+    const value: AppThemeContextType = {
+        theme,
+        preference,
+        setPreference,
+    };
+
+    return (
+        <AppThemeContext.Provider value={value}>
+            <ThemeProvider theme={theme}>
+                {children}
+            </ThemeProvider>
+        </AppThemeContext.Provider>
+    );
+};
@@ -0,0 +1,35 @@
+import { useState, useEffect } from 'react';
+
+// Track the rendered size of an element, e.g. to size the Konva stage to its container.
+// Returns a callback ref so the measurement follows the element when it mounts later.
+export function useElementSize<T extends HTMLElement>(fallback = { width: 800, height: 600 }) {
+    const [element, setElement] = useState<T | null>(null);
+    const [size, setSize] = useState(fallback);
+
+    useEffect(() => {
+        if (!element) return;
+
+        const measure = () => {
+            const { clientWidth, clientHeight } = element;
+            if (!clientWidth || !clientHeight) return;
+            setSize(prev =>
+                prev.width === clientWidth && prev.height === clientHeight
+                    ? prev
+                    : { width: clientWidth, height: clientHeight }
+            );
+        };
+
+        measure();
+
+        if (typeof ResizeObserver !== 'undefined') {
+            const observer = new ResizeObserver(measure);
+            observer.observe(element);
+            return () => observer.disconnect();
+        }
+
+        window.addEventListener('resize', measure);
+        return () => window.removeEventListener('resize', measure);
+    }, [element]);
+
+    return { ref: setElement, size };
+}
@@ -0,0 +1,89 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { Node, NodePosition, Connection } from '../types';
+import { ForceSimulation, ForceLayoutOptions, createForceSimulation } from '../utils/forceLayout';
+
+// Milliseconds of simulation per animation frame, leaving the rest of the frame to the UI
+const FRAME_BUDGET_MS = 12;
+
+// Run a force-directed layout across animation frames, exposing the intermediate
+// positions for display. onComplete receives the final positions, also when stopped early.
+export function useForceLayout() {
+    const [previewNodes, setPreviewNodes] = useState<Node[] | null>(null);
+    const frameRef = useRef<number | null>(null);
+    const runRef = useRef<{
+        simulation: ForceSimulation;
+        nodes: Node[];
+        onComplete: (positions: NodePosition[]) => void;
+    } | null>(null);
+
+    const applyPositions = (nodes: Node[], positions: NodePosition[]): Node[] => {
+        const byId = new Map(positions.map(position => [position.id, position]));
+        return nodes.map(node => {
+            const position = byId.get(node.id);
+            return position ? { ...node, x: position.x, y: position.y } : node;
+        });
+    };
+
+    const finish = useCallback(() => {
+        if (frameRef.current !== null) {
+            cancelAnimationFrame(frameRef.current);
+            frameRef.current = null;
+        }
+        const run = runRef.current;
+        runRef.current = null;
+        setPreviewNodes(null);
+        if (run) {
+            run.onComplete(run.simulation.positions());
+        }
+    }, []);
+
+    const start = useCallback((
+        nodes: Node[],
+        connections: Connection[],
+        onComplete: (positions: NodePosition[]) => void,
+        options: ForceLayoutOptions = {}
+    ) => {
+        if (frameRef.current !== null) {
+            cancelAnimationFrame(frameRef.current);
+        }
+
+        const simulation = createForceSimulation(nodes, connections, options);
+        runRef.current = { simulation, nodes, onComplete };
+        setPreviewNodes(nodes);
+
+        const frame = () => {
+            const run = runRef.current;
+            if (!run) return;
+
+            const frameStart = performance.now();
+            let settled = false;
+            while (!settled && performance.now() - frameStart < FRAME_BUDGET_MS) {
+                settled = run.simulation.step(1);
+            }
+
+            setPreviewNodes(applyPositions(run.nodes, run.simulation.positions()));
+            if (settled) {
+                frameRef.current = null;
+                finish();
+            } else {
+                frameRef.current = requestAnimationFrame(frame);
+            }
+        };
+
+        frameRef.current = requestAnimationFrame(frame);
+    }, [finish]);
+
+    // Drop a running simulation without committing anything, e.g. on unmount
+    const cancel = useCallback(() => {
+        if (frameRef.current !== null) {
+            cancelAnimationFrame(frameRef.current);
+            frameRef.current = null;
+        }
+        runRef.current = null;
+        setPreviewNodes(null);
+    }, []);
+
+    useEffect(() => cancel, [cancel]);
+
+    return { previewNodes, start, stop: finish, cancel, isRunning: previewNodes !== null };
+}
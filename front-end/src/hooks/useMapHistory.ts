@@ -0,0 +1,105 @@
+import { useReducer, useCallback, useMemo } from 'react';
+import { MapCommand, MapDocument, applyCommand, invertCommand, mergeCommands } from '../utils/historyUtils';
+
+interface HistoryEntry {
+    command: MapCommand;
+    coalesceKey?: string;
+    timestamp: number;
+}
+
+interface HistoryState {
+    document: MapDocument;
+    undoStack: HistoryEntry[];
+    redoStack: HistoryEntry[];
+    // Bumped on every edit, undo and redo (but not on reset) to detect unsaved changes
+    version: number;
+}
+
+type HistoryAction =
+    | { type: 'execute'; command: MapCommand; coalesceKey?: string; timestamp: number }
+    | { type: 'undo' }
+    | { type: 'redo' }
+    | { type: 'reset'; document: MapDocument };
+
+export interface ExecuteOptions {
+    // Consecutive commands sharing a key within COALESCE_WINDOW_MS undo as one step
+    coalesceKey?: string;
+}
+
+const COALESCE_WINDOW_MS = 1000;
+
+const createReducer = (limit: number) => (state: HistoryState, action: HistoryAction): HistoryState => {
+    switch (action.type) {
+        case 'execute': {
+            const document = applyCommand(state.document, action.command);
+            const last = state.undoStack[state.undoStack.length - 1];
+            const shouldCoalesce = !!action.coalesceKey &&
+                last?.coalesceKey === action.coalesceKey &&
+                action.timestamp - last.timestamp < COALESCE_WINDOW_MS;
+
+            const entry: HistoryEntry = shouldCoalesce
+                ? { command: mergeCommands(last.command, action.command), coalesceKey: action.coalesceKey, timestamp: action.timestamp }
+                : { command: action.command, coalesceKey: action.coalesceKey, timestamp: action.timestamp };
+            const undoStack = shouldCoalesce
+                ? [...state.undoStack.slice(0, -1), entry]
+                : [...state.undoStack, entry].slice(-limit);
+
+            return { document, undoStack, redoStack: [], version: state.version + 1 };
+        }
+        case 'undo': {
+            const entry = state.undoStack[state.undoStack.length - 1];
+            if (!entry) return state;
+            return {
+                document: applyCommand(state.document, invertCommand(entry.command)),
+                undoStack: state.undoStack.slice(0, -1),
+                redoStack: [...state.redoStack, entry],
+                version: state.version + 1,
+            };
+        }
+        case 'redo': {
+            const entry = state.redoStack[state.redoStack.length - 1];
+            if (!entry) return state;
+            return {
+                document: applyCommand(state.document, entry.command),
+                // Redone entries never coalesce with what follows
+                undoStack: [...state.undoStack, { ...entry, coalesceKey: undefined }],
+                redoStack: state.redoStack.slice(0, -1),
+                version: state.version + 1,
+            };
+        }
+        case 'reset':
+            return { document: action.document, undoStack: [], redoStack: [], version: state.version };
+        default:
+            return state;
+    }
+};
+
+// Command-based undo/redo history for the map being edited
+export function useMapHistory(initialDocument: MapDocument, limit: number = 100) {
+    const reducer = useMemo(() => createReducer(limit), [limit]);
+    const [state, dispatch] = useReducer(reducer, {
+        document: initialDocument,
+        undoStack: [],
+        redoStack: [],
+        version: 0,
+    });
+
+    const execute = useCallback((command: MapCommand, options: ExecuteOptions = {}) => {
+        dispatch({ type: 'execute', command, coalesceKey: options.coalesceKey, timestamp: Date.now() });
+    }, []);
+
+    const undo = useCallback(() => dispatch({ type: 'undo' }), []);
+    const redo = useCallback(() => dispatch({ type: 'redo' }), []);
+    const reset = useCallback((document: MapDocument) => dispatch({ type: 'reset', document }), []);
+
+    return {
+        document: state.document,
+        version: state.version,
+        execute,
+        undo,
+        redo,
+        reset,
+        canUndo: state.undoStack.length > 0,
+        canRedo: state.redoStack.length > 0,
+    };
+}
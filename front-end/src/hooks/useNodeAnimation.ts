@@ -0,0 +1,59 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { Node, NodePosition } from '../types';
+
+const easeInOutCubic = (t: number): number => {
+    return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+};
+
+// Tween nodes from their current to new positions. The intermediate frames are
+// only for display; onComplete commits the final positions (e.g. to the history).
+export function useNodeAnimation(duration: number = 400) {
+    const [animatedNodes, setAnimatedNodes] = useState<Node[] | null>(null);
+    const frameRef = useRef<number | null>(null);
+
+    const cancel = useCallback(() => {
+        if (frameRef.current !== null) {
+            cancelAnimationFrame(frameRef.current);
+            frameRef.current = null;
+        }
+        setAnimatedNodes(null);
+    }, []);
+
+    const animate = useCallback((nodes: Node[], targets: NodePosition[], onComplete: () => void) => {
+        if (frameRef.current !== null) {
+            cancelAnimationFrame(frameRef.current);
+        }
+
+        const targetById = new Map(targets.map(target => [target.id, target]));
+        const start = performance.now();
+
+        const step = (now: number) => {
+            const progress = Math.min(1, (now - start) / duration);
+            const eased = easeInOutCubic(progress);
+
+            setAnimatedNodes(nodes.map(node => {
+                const target = targetById.get(node.id);
+                if (!target) return node;
+                return {
+                    ...node,
+                    x: node.x + (target.x - node.x) * eased,
+                    y: node.y + (target.y - node.y) * eased,
+                };
+            }));
+
+            if (progress < 1) {
+                frameRef.current = requestAnimationFrame(step);
+            } else {
+                frameRef.current = null;
+                setAnimatedNodes(null);
+                onComplete();
+            }
+        };
+
+        frameRef.current = requestAnimationFrame(step);
+    }, [duration]);
+
+    useEffect(() => cancel, [cancel]);
+
+    return { animatedNodes, animate, cancel, isAnimating: animatedNodes !== null };
+}
@@ -1,4 +1,5 @@
-import { MindMap } from '../types';
+import { MapTheme, MindMap, Viewport } from '../types';
+import { AppThemePreference } from '../components/styled/theme';
 import { login, register, checkPasswordStrength } from './authService';
 
 // Utility to get current user from localStorage
@@ -24,6 +25,9 @@ const getUserStorageKey = (): string => {
     return key;
 };
 
+// Roughly what browsers allow a site to keep in local storage
+export const LOCAL_STORAGE_BUDGET = 5 * 1024 * 1024;
+
 export interface LocalMindMap extends Omit<MindMap, '_id'> {
     id: string;
     createdAt: string;
@@ -131,6 +135,101 @@ export const localStorageService = {
         }
     },
 
+    // Get the last pan/zoom state saved for a map
+    getViewport: (mapId: string): Viewport | null => {
+        try {
+            const viewports = localStorage.getItem(`${getUserStorageKey()}_viewports`);
+            const parsedViewports: { [mapId: string]: Viewport } = viewports ? JSON.parse(viewports) : {};
+            return parsedViewports[mapId] || null;
+        } catch (error) {
+            console.error('Error reading viewport from localStorage:', error);
+            return null;
+        }
+    },
+
+    // Remember the pan/zoom state of a map (kept apart from the map so it does not mark it as modified)
+    saveViewport: (mapId: string, viewport: Viewport): void => {
+        try {
+            const storageKey = `${getUserStorageKey()}_viewports`;
+            const viewports = localStorage.getItem(storageKey);
+            const parsedViewports: { [mapId: string]: Viewport } = viewports ? JSON.parse(viewports) : {};
+            parsedViewports[mapId] = viewport;
+            localStorage.setItem(storageKey, JSON.stringify(parsedViewports));
+        } catch (error) {
+            console.error('Error saving viewport to localStorage:', error);
+        }
+    },
+
+    // Map themes the current user saved
+    getCustomThemes: (): MapTheme[] => {
+        try {
+            const themes = localStorage.getItem(`${getUserStorageKey()}_themes`);
+            return themes ? JSON.parse(themes) : [];
+        } catch (error) {
+            console.error('Error reading themes from localStorage:', error);
+            return [];
+        }
+    },
+
+    // Add a custom theme, or replace the one with the same id
+    saveCustomTheme: (theme: MapTheme): MapTheme[] => {
+        try {
+            const themes = [
+                ...localStorageService.getCustomThemes().filter(existing => existing.id !== theme.id),
+                theme,
+            ];
+            localStorage.setItem(`${getUserStorageKey()}_themes`, JSON.stringify(themes));
+            return themes;
+        } catch (error) {
+            console.error('Error saving theme to localStorage:', error);
+            throw new Error('Failed to save theme');
+        }
+    },
+
+    deleteCustomTheme: (themeId: string): MapTheme[] => {
+        try {
+            const themes = localStorageService.getCustomThemes().filter(theme => theme.id !== themeId);
+            localStorage.setItem(`${getUserStorageKey()}_themes`, JSON.stringify(themes));
+            return themes;
+        } catch (error) {
+            console.error('Error deleting theme from localStorage:', error);
+            throw new Error('Failed to delete theme');
+        }
+    },
+
+    // Light/dark/high-contrast choice of the current user, null when never chosen
+    getAppThemePreference: (): AppThemePreference | null => {
+        try {
+            return localStorage.getItem(`${getUserStorageKey()}_app_theme`) as AppThemePreference | null;
+        } catch (error) {
+            console.error('Error reading app theme from localStorage:', error);
+            return null;
+        }
+    },
+
+    saveAppThemePreference: (preference: AppThemePreference): void => {
+        try {
+            localStorage.setItem(`${getUserStorageKey()}_app_theme`, preference);
+        } catch (error) {
+            console.error('Error saving app theme to localStorage:', error);
+        }
+    },
+
+    // Bytes taken up by everything in local storage (strings are stored as UTF-16)
+    getStorageUsage: (): number => {
+        try {
+            let characters = 0;
+            for (let i = 0; i < localStorage.length; i++) {
+                const key = localStorage.key(i) || '';
+                characters += key.length + (localStorage.getItem(key) || '').length;
+            }
+            return characters * 2;
+        } catch (error) {
+            console.error('Error measuring localStorage usage:', error);
+            return 0;
+        }
+    },
+
     // Clear all mind maps from local storage for current user
     clearAll: (): void => {
         try {
@@ -8,6 +8,10 @@ export interface User {
     createdAt?: string;
     updatedAt?: string;
 }
+// Outline a node is drawn with; 'underline' draws just a line under the text
+export type NodeShape = 'rectangle' | 'rounded' | 'ellipse' | 'pill' | 'diamond' | 'cloud' | 'underline';
+export type NodeTextAlign = 'left' | 'center' | 'right';
+
 export interface Node {
     id: string;
     text: string;
@@ -15,14 +19,96 @@ export interface Node {
     y: number;
     parent: string | null;
     color?: string;
+    width?: number;  // Size fitted to the wrapped text; missing on maps saved before auto-sizing
+    height?: number;
+    pinned?: boolean; // Kept in place by the force-directed layout
+    collapsed?: boolean; // Descendants are hidden on the canvas
+    // Appearance; see nodeStyleUtils.ts for the defaults of unset properties
+    shape?: NodeShape;
+    borderColor?: string;
+    borderWidth?: number;
+    textColor?: string;
+    fontSize?: number;
+    bold?: boolean;
+    italic?: boolean;
+    textAlign?: NodeTextAlign;
+    // Content beyond the text; empty strings mean none
+    note?: string;  // Markdown, shown in a popover on the canvas
+    link?: string;  // URL opened from the link indicator
+    icon?: string;  // Emoji drawn before the text
+    image?: NodeImage;
+    task?: NodeTask; // Set on nodes used as tasks when planning
+    tags?: string[]; // Normalized as in tagUtils.ts
+}
+
+export interface NodeTask {
+    done: boolean;
+    priority?: number; // 1 (highest) to 5 (lowest)
+    dueDate?: string;  // YYYY-MM-DD
+    assignee?: string;
 }
 
+// Picture shown above a node's text, compressed when it was added (see imageUtils.ts)
+export interface NodeImage {
+    src: string;    // Data URL, so the image is saved and exported with the map
+    width: number;  // Size of the thumbnail on the canvas
+    height: number;
+}
+
+// The appearance properties of a node, which descendants inherit unless they set their own
+export type NodeStyleProperties = Pick<
+    Node,
+    'color' | 'shape' | 'borderColor' | 'borderWidth' | 'textColor' | 'fontSize' | 'bold' | 'italic' | 'textAlign'
+>;
+
+// Map-wide look: styles for the root, inner branch and leaf nodes plus a palette that
+// gives every main branch (a child of a root) its own color, shared by its whole subtree
+export interface MapTheme {
+    id: string;
+    name: string;
+    background?: string; // Canvas color; the app theme decides when not set
+    root: NodeStyleProperties;
+    branch: NodeStyleProperties;
+    leaf: NodeStyleProperties;
+    branchPalette: string[];
+    paletteTarget: 'color' | 'borderColor'; // Node property the branch color is applied to
+    custom?: boolean; // Saved by the user rather than built in
+}
+
+// New position for a node, e.g. after a drag or an automatic layout
+export interface NodePosition {
+    id: string;
+    x: number;
+    y: number;
+}
+
+// How a connection line is drawn between two nodes
+export type ConnectionRouting = 'straight' | 'bezier' | 'orthogonal';
+export type ConnectionLineStyle = 'solid' | 'dashed' | 'dotted';
+// Which ends get an arrowhead: none, the 'to' end, or both ends
+export type ConnectionDirection = 'none' | 'forward' | 'both';
+
 export interface Connection {
     from: string;
     to: string;
     type?: 'parent-child' | 'regular'; // Optional for backward compatibility
+    routing?: ConnectionRouting; // Overrides the map's connection routing
+    label?: string;
+    color?: string;
+    lineStyle?: ConnectionLineStyle; // Defaults to solid for parent-child, dashed for regular
+    direction?: ConnectionDirection; // Defaults to none for parent-child, forward for regular
 }
 
+// Pan/zoom state of the canvas: stage offset in screen pixels plus zoom factor
+export interface Viewport {
+    x: number;
+    y: number;
+    scale: number;
+}
+
+// Width range a map sizes its nodes within
+export type NodeWidth = 'compact' | 'normal' | 'wide';
+
 export interface MindMap {
     _id?: string;   // For backend maps
     id?: string;    // For local maps
@@ -31,6 +117,9 @@ export interface MindMap {
     isPublic?: boolean;
     nodes: Node[];
     connections: Connection[];
+    connectionRouting?: ConnectionRouting; // Default routing for the map's connections
+    themeId?: string;
+    nodeWidth?: NodeWidth;
     createdAt?: string;
     updatedAt?: string;
 }
@@ -0,0 +1,70 @@
+import { Node } from '../types';
+import { getNodeSize } from './mindMapUtils';
+
+export type Alignment = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+
+// Line up the given nodes along one edge or center line of their common bounding box
+export const alignNodes = (nodes: Node[], nodeIds: string[], alignment: Alignment): Node[] => {
+    const targets = nodes.filter(node => nodeIds.includes(node.id));
+    if (targets.length < 2) return nodes;
+
+    const left = Math.min(...targets.map(node => node.x));
+    const right = Math.max(...targets.map(node => node.x + getNodeSize(node).width));
+    const top = Math.min(...targets.map(node => node.y));
+    const bottom = Math.max(...targets.map(node => node.y + getNodeSize(node).height));
+
+    return nodes.map(node => {
+        if (!nodeIds.includes(node.id)) return node;
+        const { width, height } = getNodeSize(node);
+
+        switch (alignment) {
+            case 'left':
+                return { ...node, x: left };
+            case 'center':
+                return { ...node, x: (left + right) / 2 - width / 2 };
+            case 'right':
+                return { ...node, x: right - width };
+            case 'top':
+                return { ...node, y: top };
+            case 'middle':
+                return { ...node, y: (top + bottom) / 2 - height / 2 };
+            case 'bottom':
+                return { ...node, y: bottom - height };
+            default:
+                return node;
+        }
+    });
+};
+
+export type DistributeAxis = 'horizontal' | 'vertical';
+
+// Space the given nodes evenly between the outermost two, keeping those in place
+export const distributeNodes = (nodes: Node[], nodeIds: string[], axis: DistributeAxis): Node[] => {
+    const horizontal = axis === 'horizontal';
+    const start = (node: Node) => (horizontal ? node.x : node.y);
+    const length = (node: Node) => (horizontal ? getNodeSize(node).width : getNodeSize(node).height);
+
+    const targets = nodes
+        .filter(node => nodeIds.includes(node.id))
+        .sort((a, b) => (start(a) + length(a) / 2) - (start(b) + length(b) / 2));
+    if (targets.length < 3) return nodes;
+
+    const first = targets[0];
+    const last = targets[targets.length - 1];
+    const span = start(last) + length(last) - start(first);
+    const occupied = targets.reduce((sum, node) => sum + length(node), 0);
+    const gap = (span - occupied) / (targets.length - 1);
+
+    const positions = new Map<string, number>();
+    let next = start(first);
+    targets.forEach(node => {
+        positions.set(node.id, next);
+        next += length(node) + gap;
+    });
+
+    return nodes.map(node => {
+        const position = positions.get(node.id);
+        if (position === undefined) return node;
+        return horizontal ? { ...node, x: position } : { ...node, y: position };
+    });
+};
@@ -0,0 +1,29 @@
+import { clipToBorder, routeConnection } from './connectionRouting';
+
+const left = { x: 0, y: 0, width: 100, height: 40 };
+const right = { x: 300, y: 0, width: 100, height: 40 };
+
+test('straight connections start and end on the node borders', () => {
+    expect(routeConnection(left, right, 'straight').points).toEqual([100, 20, 300, 20]);
+    expect(clipToBorder(left, { x: 50, y: 220 })).toEqual({ x: 50, y: 40 });
+});
+
+test('curved connections leave through the facing sides', () => {
+    const route = routeConnection(left, right, 'bezier');
+
+    expect(route.bezier).toBe(true);
+    expect(route.points.slice(0, 2)).toEqual([100, 20]);
+    expect(route.points.slice(-2)).toEqual([300, 20]);
+    expect(route.midpoint).toEqual({ x: 200, y: 20 });
+});
+
+test('elbow connections only use horizontal and vertical segments', () => {
+    const below = { x: 300, y: 100, width: 100, height: 40 };
+    const points = routeConnection(left, below, 'orthogonal').points;
+
+    for (let i = 0; i + 3 < points.length; i += 2) {
+        const horizontal = points[i + 1] === points[i + 3];
+        const vertical = points[i] === points[i + 2];
+        expect(horizontal || vertical).toBe(true);
+    }
+});
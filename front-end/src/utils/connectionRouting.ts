@@ -0,0 +1,111 @@
+import { ConnectionRouting } from '../types';
+import { Box } from './snapUtils';
+
+export const DEFAULT_CONNECTION_ROUTING: ConnectionRouting = 'straight';
+
+export const ROUTING_OPTIONS: { routing: ConnectionRouting; label: string }[] = [
+    { routing: 'straight', label: 'Straight' },
+    { routing: 'bezier', label: 'Curved' },
+    { routing: 'orthogonal', label: 'Elbow' },
+];
+
+interface Point {
+    x: number;
+    y: number;
+}
+
+export interface ConnectionRoute {
+    points: number[];   // Flat x/y list as Konva's Line expects
+    bezier: boolean;    // points are start, control 1, control 2, end
+    midpoint: Point;    // Halfway along the route, e.g. for a label
+}
+
+const centerOf = (box: Box): Point => ({ x: box.x + box.width / 2, y: box.y + box.height / 2 });
+
+// Where the line from the center of a box towards a point leaves the box
+export const clipToBorder = (box: Box, toward: Point): Point => {
+    const center = centerOf(box);
+    const dx = toward.x - center.x;
+    const dy = toward.y - center.y;
+    if (dx === 0 && dy === 0) return center;
+
+    const scaleX = dx !== 0 ? (box.width / 2) / Math.abs(dx) : Infinity;
+    const scaleY = dy !== 0 ? (box.height / 2) / Math.abs(dy) : Infinity;
+    const scale = Math.min(scaleX, scaleY, 1);
+    return { x: center.x + dx * scale, y: center.y + dy * scale };
+};
+
+// Curved and elbow routes leave and enter through the facing sides of the two boxes
+const facingSides = (from: Box, to: Box) => {
+    const fromCenter = centerOf(from);
+    const toCenter = centerOf(to);
+    const horizontal = Math.abs(toCenter.x - fromCenter.x) >= Math.abs(toCenter.y - fromCenter.y);
+
+    if (horizontal) {
+        const direction = toCenter.x >= fromCenter.x ? 1 : -1;
+        return {
+            horizontal,
+            start: { x: fromCenter.x + direction * from.width / 2, y: fromCenter.y },
+            end: { x: toCenter.x - direction * to.width / 2, y: toCenter.y },
+        };
+    }
+    const direction = toCenter.y >= fromCenter.y ? 1 : -1;
+    return {
+        horizontal,
+        start: { x: fromCenter.x, y: fromCenter.y + direction * from.height / 2 },
+        end: { x: toCenter.x, y: toCenter.y - direction * to.height / 2 },
+    };
+};
+
+const cubicPoint = (p0: number, p1: number, p2: number, p3: number, t: number): number => {
+    const u = 1 - t;
+    return u * u * u * p0 + 3 * u * u * t * p1 + 3 * u * t * t * p2 + t * t * t * p3;
+};
+
+/**
+ * Route a connection between two node boxes. Every route starts and ends on the
+ * node borders rather than the centers, so lines and arrowheads stay visible.
+ */
+export const routeConnection = (from: Box, to: Box, routing: ConnectionRouting): ConnectionRoute => {
+    switch (routing) {
+        case 'bezier': {
+            const { horizontal, start, end } = facingSides(from, to);
+            const bend = Math.max(30, (horizontal ? Math.abs(end.x - start.x) : Math.abs(end.y - start.y)) / 2);
+            const dirX = end.x >= start.x ? 1 : -1;
+            const dirY = end.y >= start.y ? 1 : -1;
+            const c1 = horizontal ? { x: start.x + dirX * bend, y: start.y } : { x: start.x, y: start.y + dirY * bend };
+            const c2 = horizontal ? { x: end.x - dirX * bend, y: end.y } : { x: end.x, y: end.y - dirY * bend };
+            return {
+                points: [start.x, start.y, c1.x, c1.y, c2.x, c2.y, end.x, end.y],
+                bezier: true,
+                midpoint: {
+                    x: cubicPoint(start.x, c1.x, c2.x, end.x, 0.5),
+                    y: cubicPoint(start.y, c1.y, c2.y, end.y, 0.5),
+                },
+            };
+        }
+        case 'orthogonal': {
+            const { horizontal, start, end } = facingSides(from, to);
+            const midX = (start.x + end.x) / 2;
+            const midY = (start.y + end.y) / 2;
+            const corners = horizontal
+                ? [midX, start.y, midX, end.y]
+                : [start.x, midY, end.x, midY];
+            return {
+                points: [start.x, start.y, ...corners, end.x, end.y],
+                bezier: false,
+                midpoint: { x: midX, y: midY },
+            };
+        }
+        case 'straight':
+        default: {
+            const start = clipToBorder(from, centerOf(to));
+            const end = clipToBorder(to, centerOf(from));
+            return {
+                points: [start.x, start.y, end.x, end.y],
+                bezier: false,
+                midpoint: { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 },
+            };
+        }
+    }
+};
@@ -0,0 +1,48 @@
+import { Connection, ConnectionDirection, ConnectionLineStyle } from '../types';
+
+export const LINE_STYLE_OPTIONS: { lineStyle: ConnectionLineStyle; label: string }[] = [
+    { lineStyle: 'solid', label: 'Solid' },
+    { lineStyle: 'dashed', label: 'Dashed' },
+    { lineStyle: 'dotted', label: 'Dotted' },
+];
+
+export const DIRECTION_OPTIONS: { direction: ConnectionDirection; label: string }[] = [
+    { direction: 'none', label: '— None' },
+    { direction: 'forward', label: '→ Forward' },
+    { direction: 'both', label: '↔ Both' },
+];
+
+// Dash patterns at a stroke width of 1; scaled with the actual width when drawn
+export const DASH_PATTERNS: { [style in ConnectionLineStyle]: number[] | undefined } = {
+    solid: undefined,
+    dashed: [2.5, 2.5],
+    dotted: [0.5, 2.5],
+};
+
+export interface ConnectionStyle {
+    color: string;
+    strokeWidth: number;
+    lineStyle: ConnectionLineStyle;
+    direction: ConnectionDirection;
+}
+
+export const isParentChildConnection = (connection: Connection): boolean => {
+    return connection.type === 'parent-child';
+};
+
+export const DEFAULT_CONNECTION_COLORS = { parentChild: '#10b981', regular: '#6b7280' };
+
+// Effective look of a connection: its own settings, or else the defaults of its type
+// (green solid lines for parent-child, gray dashed arrows for regular connections)
+export const getConnectionStyle = (
+    connection: Connection,
+    parentChild: boolean = isParentChildConnection(connection),
+    colors: { parentChild: string; regular: string } = DEFAULT_CONNECTION_COLORS
+): ConnectionStyle => {
+    return {
+        color: connection.color || (parentChild ? colors.parentChild : colors.regular),
+        strokeWidth: parentChild ? 3 : 2,
+        lineStyle: connection.lineStyle || (parentChild ? 'solid' : 'dashed'),
+        direction: connection.direction || (parentChild ? 'none' : 'forward'),
+    };
+};
@@ -0,0 +1,188 @@
+import { Node, NodePosition, Connection } from '../types';
+import { getNodeSize } from './mindMapUtils';
+
+export interface ForceLayoutOptions {
+    parentChildLength?: number;   // Rest length of parent-child springs
+    regularLength?: number;       // Rest length of regular (cross-link) springs
+    parentChildStrength?: number;
+    regularStrength?: number;
+    repulsion?: number;
+    repulsionRadius?: number;     // Nodes further apart than this do not repel
+    gravity?: number;             // Pull towards the center of the map
+    maxIterations?: number;
+    fixedNodeIds?: string[];      // Treated like pinned nodes for this run only
+}
+
+export interface ForceSimulation {
+    // Run up to `iterations` ticks; returns true once the layout has settled
+    step: (iterations?: number) => boolean;
+    positions: () => NodePosition[];
+    iteration: () => number;
+}
+
+const DEFAULTS = {
+    parentChildLength: 180,
+    regularLength: 260,
+    parentChildStrength: 0.06,
+    regularStrength: 0.02,
+    repulsion: 12000,
+    repulsionRadius: 450,
+    gravity: 0.002,
+    maxIterations: 400,
+};
+
+/**
+ * Spring-electrical layout that can be advanced a few ticks at a time so large
+ * maps can be arranged across animation frames. Repulsion only acts between nodes
+ * in neighbouring grid cells, which keeps each tick close to linear in node count.
+ */
+export const createForceSimulation = (
+    nodes: Node[],
+    connections: Connection[],
+    options: ForceLayoutOptions = {}
+): ForceSimulation => {
+    const config = { ...DEFAULTS, ...options };
+    const count = nodes.length;
+    const indexById = new Map(nodes.map((node, index) => [node.id, index]));
+    const fixedIds = new Set(options.fixedNodeIds || []);
+
+    // Work on node centers
+    const x = new Float64Array(count);
+    const y = new Float64Array(count);
+    const fx = new Float64Array(count);
+    const fy = new Float64Array(count);
+    const fixed = nodes.map(node => !!node.pinned || fixedIds.has(node.id));
+    const sizes = nodes.map(getNodeSize);
+    nodes.forEach((node, i) => {
+        x[i] = node.x + sizes[i].width / 2;
+        y[i] = node.y + sizes[i].height / 2;
+    });
+
+    // Springs for both connection types; parent links without a connection entry count too
+    const springs: { a: number; b: number; length: number; strength: number }[] = [];
+    const springKeys = new Set<string>();
+    const addSpring = (from: string, to: string, parentChild: boolean) => {
+        const a = indexById.get(from);
+        const b = indexById.get(to);
+        if (a === undefined || b === undefined || a === b) return;
+        const key = a < b ? `${a}-${b}` : `${b}-${a}`;
+        if (springKeys.has(key)) return;
+        springKeys.add(key);
+        springs.push({
+            a,
+            b,
+            length: parentChild ? config.parentChildLength : config.regularLength,
+            strength: parentChild ? config.parentChildStrength : config.regularStrength,
+        });
+    };
+    nodes.forEach(node => {
+        if (node.parent) addSpring(node.parent, node.id, true);
+    });
+    connections.forEach(conn => addSpring(conn.from, conn.to, conn.type === 'parent-child'));
+
+    let iteration = 0;
+    let temperature = 60;
+    const cooling = Math.pow(0.5 / temperature, 1 / config.maxIterations);
+    const cellSize = config.repulsionRadius;
+    const radiusSq = config.repulsionRadius * config.repulsionRadius;
+
+    const tick = (): number => {
+        fx.fill(0);
+        fy.fill(0);
+
+        // Bucket nodes into a grid so repulsion only checks nearby cells
+        const grid = new Map<string, number[]>();
+        for (let i = 0; i < count; i++) {
+            const key = `${Math.floor(x[i] / cellSize)},${Math.floor(y[i] / cellSize)}`;
+            const bucket = grid.get(key);
+            if (bucket) bucket.push(i);
+            else grid.set(key, [i]);
+        }
+
+        for (let i = 0; i < count; i++) {
+            const cx = Math.floor(x[i] / cellSize);
+            const cy = Math.floor(y[i] / cellSize);
+            for (let gx = cx - 1; gx <= cx + 1; gx++) {
+                for (let gy = cy - 1; gy <= cy + 1; gy++) {
+                    const bucket = grid.get(`${gx},${gy}`);
+                    if (!bucket) continue;
+                    for (const j of bucket) {
+                        if (j <= i) continue;
+                        let dx = x[i] - x[j];
+                        let dy = y[i] - y[j];
+                        let distSq = dx * dx + dy * dy;
+                        if (distSq > radiusSq) continue;
+                        if (distSq < 1) {
+                            // Nudge coincident nodes apart in a deterministic direction
+                            dx = ((i % 7) - 3) || 1;
+                            dy = ((j % 5) - 2) || 1;
+                            distSq = dx * dx + dy * dy;
+                        }
+                        const force = config.repulsion / distSq;
+                        const dist = Math.sqrt(distSq);
+                        fx[i] += (dx / dist) * force;
+                        fy[i] += (dy / dist) * force;
+                        fx[j] -= (dx / dist) * force;
+                        fy[j] -= (dy / dist) * force;
+                    }
+                }
+            }
+        }
+
+        springs.forEach(({ a, b, length, strength }) => {
+            const dx = x[b] - x[a];
+            const dy = y[b] - y[a];
+            const dist = Math.sqrt(dx * dx + dy * dy) || 1;
+            const force = (dist - length) * strength;
+            fx[a] += (dx / dist) * force;
+            fy[a] += (dy / dist) * force;
+            fx[b] -= (dx / dist) * force;
+            fy[b] -= (dy / dist) * force;
+        });
+
+        let centerX = 0;
+        let centerY = 0;
+        for (let i = 0; i < count; i++) {
+            centerX += x[i];
+            centerY += y[i];
+        }
+        centerX /= count;
+        centerY /= count;
+
+        let maxMove = 0;
+        for (let i = 0; i < count; i++) {
+            if (fixed[i]) continue;
+            fx[i] += (centerX - x[i]) * config.gravity;
+            fy[i] += (centerY - y[i]) * config.gravity;
+
+            // Limit each move by the current temperature so the layout settles
+            const magnitude = Math.sqrt(fx[i] * fx[i] + fy[i] * fy[i]);
+            if (magnitude === 0) continue;
+            const move = Math.min(magnitude, temperature);
+            x[i] += (fx[i] / magnitude) * move;
+            y[i] += (fy[i] / magnitude) * move;
+            maxMove = Math.max(maxMove, move);
+        }
+
+        temperature *= cooling;
+        iteration++;
+        return maxMove;
+    };
+
+    return {
+        step: (iterations = 1) => {
+            if (count === 0) return true;
+            for (let n = 0; n < iterations; n++) {
+                if (iteration >= config.maxIterations) return true;
+                if (tick() < 0.5) return true;
+            }
+            return iteration >= config.maxIterations;
+        },
+        positions: () => nodes.map((node, i) => ({
+            id: node.id,
+            x: x[i] - sizes[i].width / 2,
+            y: y[i] - sizes[i].height / 2,
+        })),
+        iteration: () => iteration,
+    };
+};
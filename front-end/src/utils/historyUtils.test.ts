@@ -0,0 +1,98 @@
+import { Node } from '../types';
+import {
+    MapDocument,
+    applyCommand,
+    invertCommand,
+    mergeCommands,
+    diffNodes,
+    removeNodesCommand,
+    reparentNodeCommand,
+} from './historyUtils';
+
+const makeNode = (id: string, x: number = 0, y: number = 0, parent: string | null = null): Node => ({
+    id,
+    text: id,
+    x,
+    y,
+    parent,
+    color: '#ffffff',
+});
+
+const doc: MapDocument = {
+    title: 'Map',
+    nodes: [makeNode('a'), makeNode('b', 100, 0, 'a'), makeNode('c', 200, 0)],
+    connections: [
+        { from: 'a', to: 'b', type: 'parent-child' },
+        { from: 'b', to: 'c', type: 'regular' },
+    ],
+};
+
+test('undoing a batch restores nodes and connections in their original order', () => {
+    const command = removeNodesCommand(doc, ['b']);
+    const edited = applyCommand(doc, command);
+
+    expect(edited.nodes.map(node => node.id)).toEqual(['a', 'c']);
+    expect(edited.connections).toHaveLength(0);
+    expect(applyCommand(edited, invertCommand(command))).toEqual(doc);
+});
+
+test('adding a child and its connection undoes as one step', () => {
+    const child = makeNode('d', 50, 80, 'a');
+    const command = {
+        type: 'batch' as const,
+        commands: [
+            { type: 'add-node' as const, node: child },
+            { type: 'add-connection' as const, connection: { from: 'a', to: 'd', type: 'parent-child' as const } },
+        ],
+    };
+    const edited = applyCommand(doc, command);
+
+    expect(edited.nodes).toHaveLength(4);
+    expect(edited.connections).toHaveLength(3);
+    expect(applyCommand(edited, invertCommand(command))).toEqual(doc);
+});
+
+test('merged moves keep the first origin and the last destination', () => {
+    const merged = mergeCommands(
+        { type: 'move-node', nodeId: 'a', from: { x: 0, y: 0 }, to: { x: 10, y: 10 } },
+        { type: 'move-node', nodeId: 'a', from: { x: 10, y: 10 }, to: { x: 30, y: 5 } }
+    );
+
+    expect(merged).toEqual({ type: 'move-node', nodeId: 'a', from: { x: 0, y: 0 }, to: { x: 30, y: 5 } });
+});
+
+test('diffNodes round-trips through apply and invert', () => {
+    const after = [makeNode('a', 40, 40), { ...makeNode('c', 200, 0), color: '#fef3c7' }, makeNode('e')];
+    const command = { type: 'batch' as const, commands: diffNodes(doc.nodes, after) };
+    const edited = applyCommand(doc, command);
+
+    expect(edited.nodes).toEqual(after);
+    expect(applyCommand(edited, invertCommand(command)).nodes).toEqual(doc.nodes);
+});
+
+test('renaming the map is reversible', () => {
+    const command = { type: 'rename-map' as const, from: 'Map', to: 'Plans' };
+
+    expect(applyCommand(doc, command).title).toBe('Plans');
+    expect(applyCommand(applyCommand(doc, command), invertCommand(command)).title).toBe('Map');
+});
+
+test('reparenting swaps the parent-child connection and undoes cleanly', () => {
+    const command = reparentNodeCommand(doc, 'b', 'c');
+    const edited = applyCommand(doc, command);
+
+    expect(edited.nodes.find(node => node.id === 'b')!.parent).toBe('c');
+    expect(edited.connections).toEqual([{ from: 'c', to: 'b', type: 'parent-child' }]);
+    expect(applyCommand(edited, invertCommand(command))).toEqual(doc);
+});
+
+test('connection style edits merge into one undo step', () => {
+    const merged = mergeCommands(
+        { type: 'update-connection', from: 'b', to: 'c', before: { label: undefined }, after: { label: 'ca' } },
+        { type: 'update-connection', from: 'b', to: 'c', before: { label: 'ca' }, after: { label: 'causes' } }
+    );
+    const edited = applyCommand(doc, merged!);
+
+    expect(edited.connections[1]).toEqual({ from: 'b', to: 'c', type: 'regular', label: 'causes' });
+    expect(applyCommand(edited, invertCommand(merged!))).toEqual(doc);
+});
@@ -0,0 +1,255 @@
+import { Node, Connection, ConnectionRouting, NodeWidth } from '../types';
+
+// The editable part of a map that undo/redo operates on
+export interface MapDocument {
+    title: string;
+    nodes: Node[];
+    connections: Connection[];
+    connectionRouting?: ConnectionRouting;
+    themeId?: string;
+    nodeWidth?: NodeWidth;
+}
+
+// Map-wide settings, changed with 'update-map' commands
+export type MapSettings = Omit<MapDocument, 'title' | 'nodes' | 'connections'>;
+
+// A single reversible edit of a map document
+export type MapCommand =
+    | { type: 'add-node'; node: Node; index?: number }
+    | { type: 'remove-node'; node: Node; index: number }
+    | { type: 'move-node'; nodeId: string; from: { x: number; y: number }; to: { x: number; y: number } }
+    | { type: 'update-node'; nodeId: string; before: Partial<Node>; after: Partial<Node> }
+    | { type: 'add-connection'; connection: Connection; index?: number }
+    | { type: 'remove-connection'; connection: Connection; index: number }
+    | { type: 'update-connection'; from: string; to: string; before: Partial<Connection>; after: Partial<Connection> }
+    | { type: 'rename-map'; from: string; to: string }
+    | { type: 'update-map'; before: MapSettings; after: MapSettings }
+    | { type: 'batch'; commands: MapCommand[] };
+
+const isSameConnection = (a: Connection, b: Connection): boolean => {
+    return a.from === b.from && a.to === b.to && a.type === b.type;
+};
+
+const insertAt = <T>(items: T[], item: T, index?: number): T[] => {
+    if (index === undefined || index < 0 || index > items.length) {
+        return [...items, item];
+    }
+    return [...items.slice(0, index), item, ...items.slice(index)];
+};
+
+export const applyCommand = (doc: MapDocument, command: MapCommand): MapDocument => {
+    switch (command.type) {
+        case 'add-node':
+            return { ...doc, nodes: insertAt(doc.nodes, command.node, command.index) };
+        case 'remove-node':
+            return { ...doc, nodes: doc.nodes.filter(node => node.id !== command.node.id) };
+        case 'move-node':
+            return {
+                ...doc,
+                nodes: doc.nodes.map(node =>
+                    node.id === command.nodeId ? { ...node, x: command.to.x, y: command.to.y } : node
+                ),
+            };
+        case 'update-node':
+            return {
+                ...doc,
+                nodes: doc.nodes.map(node =>
+                    node.id === command.nodeId ? { ...node, ...command.after } : node
+                ),
+            };
+        case 'add-connection':
+            return { ...doc, connections: insertAt(doc.connections, command.connection, command.index) };
+        case 'remove-connection':
+            return {
+                ...doc,
+                connections: doc.connections.filter(conn => !isSameConnection(conn, command.connection)),
+            };
+        case 'update-connection':
+            return {
+                ...doc,
+                connections: doc.connections.map(conn =>
+                    conn.from === command.from && conn.to === command.to ? { ...conn, ...command.after } : conn
+                ),
+            };
+        case 'rename-map':
+            return { ...doc, title: command.to };
+        case 'update-map':
+            return { ...doc, ...command.after };
+        case 'batch':
+            return command.commands.reduce(applyCommand, doc);
+        default:
+            return doc;
+    }
+};
+
+export const invertCommand = (command: MapCommand): MapCommand => {
+    switch (command.type) {
+        case 'add-node':
+            return { type: 'remove-node', node: command.node, index: command.index ?? -1 };
+        case 'remove-node':
+            return { type: 'add-node', node: command.node, index: command.index };
+        case 'move-node':
+            return { type: 'move-node', nodeId: command.nodeId, from: command.to, to: command.from };
+        case 'update-node':
+            return { type: 'update-node', nodeId: command.nodeId, before: command.after, after: command.before };
+        case 'add-connection':
+            return { type: 'remove-connection', connection: command.connection, index: command.index ?? -1 };
+        case 'remove-connection':
+            return { type: 'add-connection', connection: command.connection, index: command.index };
+        case 'update-connection':
+            return { ...command, before: command.after, after: command.before };
+        case 'rename-map':
+            return { type: 'rename-map', from: command.to, to: command.from };
+        case 'update-map':
+            return { type: 'update-map', before: command.after, after: command.before };
+        case 'batch':
+            return { type: 'batch', commands: command.commands.map(invertCommand).reverse() };
+        default:
+            return command;
+    }
+};
+
+// Fold a follow-up command into the previous one, e.g. successive drags or
+// keystrokes in a position field, so they undo as a single step
+export const mergeCommands = (previous: MapCommand, next: MapCommand): MapCommand => {
+    if (previous.type === 'move-node' && next.type === 'move-node' && previous.nodeId === next.nodeId) {
+        return { ...previous, to: next.to };
+    }
+    if (previous.type === 'update-node' && next.type === 'update-node' && previous.nodeId === next.nodeId) {
+        return {
+            ...previous,
+            before: { ...next.before, ...previous.before },
+            after: { ...previous.after, ...next.after },
+        };
+    }
+    if (
+        previous.type === 'update-connection' &&
+        next.type === 'update-connection' &&
+        previous.from === next.from &&
+        previous.to === next.to
+    ) {
+        return {
+            ...previous,
+            before: { ...next.before, ...previous.before },
+            after: { ...previous.after, ...next.after },
+        };
+    }
+    if (
+        previous.type === 'batch' &&
+        next.type === 'batch' &&
+        previous.commands.length === next.commands.length
+    ) {
+        return {
+            type: 'batch',
+            commands: previous.commands.map((command, index) => mergeCommands(command, next.commands[index])),
+        };
+    }
+    return { type: 'batch', commands: [previous, next] };
+};
+
+// The given fields of an object, e.g. the before and after values of an update
+export const pickFields = <T, K extends keyof T>(source: T, keys: K[]): Partial<Pick<T, K>> => {
+    const picked: Partial<Pick<T, K>> = {};
+    keys.forEach(key => {
+        picked[key] = source[key];
+    });
+    return picked;
+};
+
+// Commands that turn one node list into another, for edits computed as whole new
+// arrays (alignment, layouts). Position-only changes become move-node commands.
+export const diffNodes = (before: Node[], after: Node[]): MapCommand[] => {
+    const commands: MapCommand[] = [];
+    const afterById = new Map(after.map(node => [node.id, node]));
+    const beforeById = new Map(before.map(node => [node.id, node]));
+
+    before.forEach((node, index) => {
+        const next = afterById.get(node.id);
+        if (!next) {
+            commands.push({ type: 'remove-node', node, index });
+            return;
+        }
+
+        const changedKeys = (Array.from(new Set([...Object.keys(node), ...Object.keys(next)])) as (keyof Node)[])
+            .filter(key => JSON.stringify(node[key]) !== JSON.stringify(next[key]));
+        if (changedKeys.length === 0) return;
+
+        if (changedKeys.every(key => key === 'x' || key === 'y')) {
+            commands.push({
+                type: 'move-node',
+                nodeId: node.id,
+                from: { x: node.x, y: node.y },
+                to: { x: next.x, y: next.y },
+            });
+        } else {
+            commands.push({
+                type: 'update-node',
+                nodeId: node.id,
+                before: pickFields(node, changedKeys),
+                after: pickFields(next, changedKeys),
+            });
+        }
+    });
+
+    after.forEach((node, index) => {
+        if (!beforeById.has(node.id)) {
+            commands.push({ type: 'add-node', node, index });
+        }
+    });
+
+    // Removals are applied back to front so recorded indexes stay valid when undone
+    return [
+        ...commands.filter(command => command.type === 'remove-node').reverse(),
+        ...commands.filter(command => command.type !== 'remove-node'),
+    ];
+};
+
+// Commands that remove a set of nodes together with every connection touching them
+export const removeNodesCommand = (doc: MapDocument, nodeIds: string[]): MapCommand => {
+    const ids = new Set(nodeIds);
+    const connectionCommands: MapCommand[] = [];
+    doc.connections.forEach((connection, index) => {
+        if (ids.has(connection.from) || ids.has(connection.to)) {
+            connectionCommands.push({ type: 'remove-connection', connection, index });
+        }
+    });
+    const nodeCommands: MapCommand[] = [];
+    doc.nodes.forEach((node, index) => {
+        if (ids.has(node.id)) {
+            nodeCommands.push({ type: 'remove-node', node, index });
+        }
+    });
+
+    // Back to front, so undoing re-inserts everything at its original position
+    return { type: 'batch', commands: [...connectionCommands.reverse(), ...nodeCommands.reverse()] };
+};
+
+// Move a node under a new parent (or make it a root), replacing the 'parent-child'
+// connection to its old parent. An existing connection between the node and its new
+// parent is replaced too, so the two end up linked exactly once.
+export const reparentNodeCommand = (doc: MapDocument, nodeId: string, newParentId: string | null): MapCommand => {
+    const node = doc.nodes.find(n => n.id === nodeId);
+    if (!node) return { type: 'batch', commands: [] };
+
+    const links = (connection: Connection, otherId: string | null) => otherId !== null && (
+        (connection.from === otherId && connection.to === nodeId) ||
+        (connection.from === nodeId && connection.to === otherId)
+    );
+
+    const removals: MapCommand[] = [];
+    doc.connections.forEach((connection, index) => {
+        const oldParentLink = connection.type === 'parent-child' && links(connection, node.parent);
+        if (oldParentLink || links(connection, newParentId)) {
+            removals.push({ type: 'remove-connection', connection, index });
+        }
+    });
+
+    const commands: MapCommand[] = [
+        ...removals.reverse(),
+        { type: 'update-node', nodeId, before: { parent: node.parent }, after: { parent: newParentId } },
+    ];
+    if (newParentId) {
+        commands.push({ type: 'add-connection', connection: { from: newParentId, to: nodeId, type: 'parent-child' } });
+    }
+    return { type: 'batch', commands };
+};
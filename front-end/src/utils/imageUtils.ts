@@ -0,0 +1,71 @@
+import { NodeImage } from '../types';
+
+// Longest side of stored images; larger ones are scaled down before saving
+export const IMAGE_MAX_DIMENSION = 480;
+export const IMAGE_QUALITY = 0.8;
+// Box the thumbnail is fitted into on the canvas
+export const THUMBNAIL_MAX_WIDTH = 160;
+export const THUMBNAIL_MAX_HEIGHT = 120;
+// Space between the thumbnail and the text below it
+export const IMAGE_GAP = 6;
+
+// Size scaled down (never up) to fit the box, keeping the aspect ratio
+export const fitWithin = (
+    width: number,
+    height: number,
+    maxWidth: number,
+    maxHeight: number
+): { width: number; height: number } => {
+    const scale = Math.min(1, maxWidth / width, maxHeight / height);
+    return {
+        width: Math.max(1, Math.round(width * scale)),
+        height: Math.max(1, Math.round(height * scale)),
+    };
+};
+
+// Approximate number of bytes a data URL takes up in local storage (UTF-16)
+export const getDataUrlSize = (dataUrl: string): number => dataUrl.length * 2;
+
+export const isImageFile = (file: Blob): boolean => file.type.startsWith('image/');
+
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const image = new window.Image();
+        image.onload = () => resolve(image);
+        image.onerror = () => reject(new Error('The file could not be read as an image'));
+        image.src = src;
+    });
+};
+
+/**
+ * Scale an image file down and re-encode it as a JPEG data URL, so it can be
+ * stored with the map. Transparent areas become white.
+ */
+export const compressImage = async (file: Blob): Promise<NodeImage> => {
+    if (!isImageFile(file)) {
+        throw new Error('Only image files can be added to nodes');
+    }
+
+    const objectUrl = URL.createObjectURL(file);
+    try {
+        const image = await loadImage(objectUrl);
+        const size = fitWithin(image.naturalWidth, image.naturalHeight, IMAGE_MAX_DIMENSION, IMAGE_MAX_DIMENSION);
+        const canvas = document.createElement('canvas');
+        canvas.width = size.width;
+        canvas.height = size.height;
+        const context = canvas.getContext('2d');
+        if (!context) {
+            throw new Error('Images are not supported by this browser');
+        }
+        context.fillStyle = '#ffffff';
+        context.fillRect(0, 0, size.width, size.height);
+        context.drawImage(image, 0, 0, size.width, size.height);
+
+        return {
+            src: canvas.toDataURL('image/jpeg', IMAGE_QUALITY),
+            ...fitWithin(size.width, size.height, THUMBNAIL_MAX_WIDTH, THUMBNAIL_MAX_HEIGHT),
+        };
+    } finally {
+        URL.revokeObjectURL(objectUrl);
+    }
+};
@@ -0,0 +1,35 @@
+import { Node } from '../types';
+import { findNodeInDirection, findNodeInHierarchy } from './keyboardUtils';
+
+const makeNode = (id: string, x: number, y: number, parent: string | null = null): Node => ({
+    id,
+    text: id,
+    x,
+    y,
+    parent,
+});
+
+const nodes: Node[] = [
+    makeNode('root', 0, 0),
+    makeNode('a', 200, -100, 'root'),
+    makeNode('b', 200, 100, 'root'),
+    makeNode('far', 600, 0),
+];
+
+test('arrow keys pick the nearest node in that direction', () => {
+    const root = nodes[0];
+
+    expect(findNodeInDirection(nodes, root, 'right')?.id).toBe('a');
+    expect(findNodeInDirection(nodes, nodes[1], 'down')?.id).toBe('b');
+    expect(findNodeInDirection(nodes, root, 'left')).toBeNull();
+});
+
+test('hierarchy navigation moves to parent, first child and siblings', () => {
+    const [root, a, b] = nodes;
+
+    expect(findNodeInHierarchy(nodes, a, 'left')?.id).toBe('root');
+    expect(findNodeInHierarchy(nodes, root, 'right')?.id).toBe('a');
+    expect(findNodeInHierarchy(nodes, a, 'down')?.id).toBe('b');
+    expect(findNodeInHierarchy(nodes, b, 'down')).toBeNull();
+    expect(findNodeInHierarchy(nodes, root, 'down')?.id).toBe('far');
+});
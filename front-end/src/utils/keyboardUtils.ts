@@ -0,0 +1,111 @@
+import { Node } from '../types';
+import { getNodeCenter, organizeHierarchy } from './mindMapUtils';
+
+export type Direction = 'left' | 'right' | 'up' | 'down';
+
+export const ARROW_DIRECTIONS: { [key: string]: Direction } = {
+    ArrowLeft: 'left',
+    ArrowRight: 'right',
+    ArrowUp: 'up',
+    ArrowDown: 'down',
+};
+
+// Shortcuts listed in the help overlay, grouped by topic
+export const KEYBOARD_SHORTCUTS: { group: string; shortcuts: { keys: string[]; description: string }[] }[] = [
+    {
+        group: 'Editing',
+        shortcuts: [
+            { keys: ['Tab'], description: 'Add a child to the selected node (after clicking the canvas)' },
+            { keys: ['Enter'], description: 'Add a sibling below the selected node' },
+            { keys: ['Space', 'F2'], description: 'Edit the text of the selected node' },
+            { keys: ['Delete', 'Backspace'], description: 'Delete the selected nodes' },
+            { keys: ['Alt+drag'], description: 'Drag a node without its subtree (or with it, when Drag Subtree is off)' },
+            { keys: ['Ctrl+Z'], description: 'Undo' },
+            { keys: ['Ctrl+Shift+Z', 'Ctrl+Y'], description: 'Redo' },
+        ],
+    },
+    {
+        group: 'Navigation',
+        shortcuts: [
+            { keys: ['←', '→', '↑', '↓'], description: 'Select the nearest node in that direction' },
+            { keys: ['Alt+←'], description: 'Select the parent' },
+            { keys: ['Alt+→'], description: 'Select the first child' },
+            { keys: ['Alt+↑', 'Alt+↓'], description: 'Select the previous / next sibling' },
+            { keys: ['Esc'], description: 'Clear the selection' },
+            { keys: ['Ctrl+F'], description: 'Find and replace node text' },
+            { keys: ['Enter', 'Shift+Enter'], description: 'Next / previous match in the find box' },
+        ],
+    },
+    {
+        group: 'Help',
+        shortcuts: [
+            { keys: ['?'], description: 'Show or hide this list' },
+        ],
+    },
+];
+
+// Keyboard shortcuts are ignored while the user is typing in a form field
+export const isTypingTarget = (target: EventTarget | null): boolean => {
+    const element = target as HTMLElement | null;
+    if (!element || !element.tagName) return false;
+    return element.tagName === 'INPUT' ||
+        element.tagName === 'TEXTAREA' ||
+        element.tagName === 'SELECT' ||
+        element.isContentEditable;
+};
+
+// Whether the canvas itself has keyboard focus, not a control or panel around it
+export const isCanvasTarget = (target: EventTarget | null): boolean => {
+    const element = target as HTMLElement | null;
+    return !!element && typeof element.hasAttribute === 'function' && element.hasAttribute('data-canvas-focus');
+};
+
+/**
+ * The node a spatial arrow key moves to: the closest node whose center lies in
+ * the given direction, preferring nodes in line with the current one.
+ */
+export const findNodeInDirection = (nodes: Node[], fromNode: Node, direction: Direction): Node | null => {
+    const from = getNodeCenter(fromNode);
+    let best: Node | null = null;
+    let bestScore = Infinity;
+
+    nodes.forEach(node => {
+        if (node.id === fromNode.id) return;
+        const center = getNodeCenter(node);
+        const dx = center.x - from.x;
+        const dy = center.y - from.y;
+
+        const along = direction === 'left' ? -dx : direction === 'right' ? dx : direction === 'up' ? -dy : dy;
+        const across = direction === 'left' || direction === 'right' ? Math.abs(dy) : Math.abs(dx);
+        if (along <= 0) return;
+
+        // Sideways offset counts double so the selection does not jump diagonally
+        const score = along + across * 2;
+        if (score < bestScore) {
+            bestScore = score;
+            best = node;
+        }
+    });
+
+    return best;
+};
+
+// The node an Alt+arrow key moves to: parent, first child or neighbouring sibling
+export const findNodeInHierarchy = (nodes: Node[], fromNode: Node, direction: Direction): Node | null => {
+    const { roots, children } = organizeHierarchy(nodes);
+
+    switch (direction) {
+        case 'left':
+            return nodes.find(node => node.id === fromNode.parent) || null;
+        case 'right':
+            return (children[fromNode.id] || [])[0] || null;
+        case 'up':
+        case 'down': {
+            const siblings = fromNode.parent ? children[fromNode.parent] || [] : roots;
+            const index = siblings.findIndex(node => node.id === fromNode.id);
+            return siblings[index + (direction === 'up' ? -1 : 1)] || null;
+        }
+        default:
+            return null;
+    }
+};
@@ -0,0 +1,49 @@
+import { Node } from '../types';
+import { NODE_WIDTH, NODE_HEIGHT } from './mindMapUtils';
+import { computeLayout } from './layoutUtils';
+
+const makeNode = (id: string, parent: string | null = null, x: number = 0, y: number = 0): Node => ({
+    id,
+    text: id,
+    x,
+    y,
+    parent,
+});
+
+const nodes: Node[] = [
+    makeNode('root', null, 100, 100),
+    makeNode('a', 'root'),
+    makeNode('b', 'root'),
+    makeNode('a1', 'a'),
+    makeNode('a2', 'a'),
+    makeNode('b1', 'b'),
+];
+
+const overlaps = (positions: { x: number; y: number }[]): boolean => {
+    return positions.some((p, i) => positions.some((q, j) =>
+        i !== j && Math.abs(p.x - q.x) < NODE_WIDTH && Math.abs(p.y - q.y) < NODE_HEIGHT
+    ));
+};
+
+test.each(['tree', 'org-chart', 'radial'] as const)('%s layout keeps the root in place without overlaps', type => {
+    const positions = computeLayout(nodes, type);
+
+    expect(positions).toHaveLength(nodes.length);
+    expect(positions.find(p => p.id === 'root')).toEqual({ id: 'root', x: 100, y: 100 });
+    expect(overlaps(positions)).toBe(false);
+});
+
+test('tree layout places children to the right of their parent', () => {
+    const positions = computeLayout(nodes, 'tree');
+    const x = (id: string) => positions.find(p => p.id === id)!.x;
+
+    expect(x('a')).toBeGreaterThan(x('root'));
+    expect(x('a1')).toBeGreaterThan(x('a'));
+});
+
+test('subtree layout only moves the subtree', () => {
+    const positions = computeLayout(nodes, 'org-chart', 'a');
+
+    expect(positions.map(p => p.id).sort()).toEqual(['a', 'a1', 'a2']);
+    expect(positions.find(p => p.id === 'a')).toEqual({ id: 'a', x: 0, y: 0 });
+});
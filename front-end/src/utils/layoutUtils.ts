@@ -0,0 +1,180 @@
+import { Node, NodePosition } from '../types';
+import { getNodeSize, organizeHierarchy } from './mindMapUtils';
+
+export type LayoutType = 'tree' | 'org-chart' | 'radial' | 'force';
+
+// Layouts computed in one pass from the parent hierarchy; 'force' runs incrementally (see forceLayout.ts)
+export type HierarchicalLayoutType = Exclude<LayoutType, 'force'>;
+
+export const LAYOUT_OPTIONS: { type: LayoutType; label: string }[] = [
+    { type: 'tree', label: 'Tree (left to right)' },
+    { type: 'org-chart', label: 'Org chart (top down)' },
+    { type: 'radial', label: 'Radial mind map' },
+    { type: 'force', label: 'Force-directed (cross-links)' },
+];
+
+const LEVEL_GAP_X = 60;   // Horizontal gap between tree levels
+const LEVEL_GAP_Y = 60;   // Vertical gap between org chart levels
+const SIBLING_GAP = 20;   // Gap between neighbouring siblings
+const ROOT_GAP = 80;      // Gap between separate root trees
+const MIN_RING_STEP = 180;
+
+interface SlotPlacement {
+    depth: number;
+    slot: number; // Center of the node along the sibling axis, in leaf units
+}
+
+interface RelativeLayout {
+    // Node centers relative to the root center
+    centers: Map<string, { x: number; y: number }>;
+    minX: number;
+    minY: number;
+    maxX: number;
+    maxY: number;
+}
+
+// Assign every node of a tree a depth and a position along the sibling axis, giving
+// each subtree as many slots as it has leaves and centering parents over their children
+const assignSlots = (rootId: string, children: { [parentId: string]: Node[] }) => {
+    const placements = new Map<string, SlotPlacement>();
+    const visited = new Set<string>();
+
+    const place = (id: string, depth: number, start: number): number => {
+        visited.add(id);
+        const kids = (children[id] || []).filter(child => !visited.has(child.id));
+
+        if (kids.length === 0) {
+            placements.set(id, { depth, slot: start + 0.5 });
+            return 1;
+        }
+
+        let size = 0;
+        kids.forEach(child => {
+            size += place(child.id, depth + 1, start + size);
+        });
+        placements.set(id, { depth, slot: start + size / 2 });
+        return size;
+    };
+
+    const totalSlots = place(rootId, 0, 0);
+    return { placements, totalSlots };
+};
+
+// Distance from the root center to the center of each level, so that every level
+// is as wide (tree) or as tall (org chart) as its largest node
+const levelCenters = (levelSizes: number[], gap: number): number[] => {
+    const centers = [0];
+    for (let depth = 1; depth < levelSizes.length; depth++) {
+        centers.push(centers[depth - 1] + levelSizes[depth - 1] / 2 + gap + levelSizes[depth] / 2);
+    }
+    return centers;
+};
+
+const layoutSingleTree = (
+    rootId: string,
+    children: { [parentId: string]: Node[] },
+    sizes: Map<string, { width: number; height: number }>,
+    type: HierarchicalLayoutType
+): RelativeLayout => {
+    const { placements, totalSlots } = assignSlots(rootId, children);
+    const rootSlot = placements.get(rootId)!.slot;
+    const maxDepth = Math.max(...Array.from(placements.values()).map(p => p.depth));
+    const centers = new Map<string, { x: number; y: number }>();
+
+    // Slots are as large as the largest node of the tree along the sibling axis
+    const treeSizes = Array.from(placements.keys()).map(id => sizes.get(id)!);
+    const slotWidth = Math.max(...treeSizes.map(size => size.width)) + SIBLING_GAP;
+    const slotHeight = Math.max(...treeSizes.map(size => size.height)) + SIBLING_GAP;
+
+    const levelSizes = new Array<number>(maxDepth + 1).fill(0);
+    placements.forEach((placement, id) => {
+        const size = sizes.get(id)!;
+        levelSizes[placement.depth] = Math.max(
+            levelSizes[placement.depth],
+            type === 'tree' ? size.width : size.height
+        );
+    });
+    const levels = levelCenters(levelSizes, type === 'tree' ? LEVEL_GAP_X : LEVEL_GAP_Y);
+
+    const ringStep = Math.max(
+        MIN_RING_STEP,
+        slotWidth,
+        (totalSlots * slotHeight) / (2 * Math.PI * Math.max(1, maxDepth))
+    );
+
+    placements.forEach((placement, id) => {
+        switch (type) {
+            case 'tree':
+                centers.set(id, {
+                    x: levels[placement.depth],
+                    y: (placement.slot - rootSlot) * slotHeight,
+                });
+                break;
+            case 'org-chart':
+                centers.set(id, {
+                    x: (placement.slot - rootSlot) * slotWidth,
+                    y: levels[placement.depth],
+                });
+                break;
+            case 'radial': {
+                const angle = (placement.slot / totalSlots) * 2 * Math.PI;
+                const radius = placement.depth * ringStep;
+                centers.set(id, { x: Math.cos(angle) * radius, y: Math.sin(angle) * radius });
+                break;
+            }
+        }
+    });
+
+    const boxes = Array.from(centers.entries()).map(([id, center]) => ({ center, size: sizes.get(id)! }));
+    return {
+        centers,
+        minX: Math.min(...boxes.map(({ center, size }) => center.x - size.width / 2)),
+        minY: Math.min(...boxes.map(({ center, size }) => center.y - size.height / 2)),
+        maxX: Math.max(...boxes.map(({ center, size }) => center.x + size.width / 2)),
+        maxY: Math.max(...boxes.map(({ center, size }) => center.y + size.height / 2)),
+    };
+};
+
+/**
+ * Arrange the parent/child hierarchy. With a rootId only that subtree is arranged
+ * around its root, which stays in place; otherwise every root tree is arranged,
+ * the first one anchored at its current position and the others placed next to it.
+ */
+export const computeLayout = (nodes: Node[], type: HierarchicalLayoutType, rootId?: string): NodePosition[] => {
+    const { roots, children } = organizeHierarchy(nodes);
+    const subtreeRoot = rootId ? nodes.find(node => node.id === rootId) : undefined;
+    const layoutRoots = rootId ? (subtreeRoot ? [subtreeRoot] : []) : roots;
+    if (layoutRoots.length === 0) return [];
+
+    const sizes = new Map(nodes.map(node => [node.id, getNodeSize(node)]));
+    const positions: NodePosition[] = [];
+    const anchor = layoutRoots[0];
+    let offsetX = anchor.x + sizes.get(anchor.id)!.width / 2;
+    let offsetY = anchor.y + sizes.get(anchor.id)!.height / 2;
+    let previous: RelativeLayout | null = null;
+
+    layoutRoots.forEach(root => {
+        const layout = layoutSingleTree(root.id, children, sizes, type);
+
+        if (previous) {
+            // Stack root trees below each other for trees, side by side otherwise
+            if (type === 'tree') {
+                offsetY += previous.maxY - layout.minY + ROOT_GAP;
+            } else {
+                offsetX += previous.maxX - layout.minX + ROOT_GAP;
+            }
+        }
+
+        layout.centers.forEach((center, id) => {
+            const size = sizes.get(id)!;
+            positions.push({
+                id,
+                x: offsetX + center.x - size.width / 2,
+                y: offsetY + center.y - size.height / 2,
+            });
+        });
+        previous = layout;
+    });
+
+    return positions;
+};
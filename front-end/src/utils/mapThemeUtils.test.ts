@@ -0,0 +1,75 @@
+import { MapTheme, Node } from '../types';
+import { applyMapTheme, getMapTheme } from './mapThemeUtils';
+
+const makeNode = (id: string, parent: string | null = null, extra: Partial<Node> = {}): Node => ({
+    id,
+    text: id,
+    x: 0,
+    y: 0,
+    parent,
+    width: 120,
+    height: 40,
+    ...extra,
+});
+
+const theme: MapTheme = {
+    id: 'test',
+    name: 'Test',
+    background: '#ffffff',
+    root: { color: '#000000' },
+    branch: { textColor: '#111111' },
+    leaf: { textColor: '#222222' },
+    branchPalette: ['#ff0000', '#00ff00'],
+    paletteTarget: 'borderColor',
+};
+
+const nodes = [
+    makeNode('root'),
+    makeNode('a', 'root'),
+    makeNode('a1', 'a'),
+    makeNode('b', 'root', { color: '#fef3c7' }),
+    makeNode('b1', 'b'),
+    makeNode('b2', 'b', { color: '#bfdbfe' }),
+];
+
+const themedById = (theme: MapTheme) => {
+    const result = applyMapTheme(nodes, [{ from: 'root', to: 'b', type: 'parent-child' }], theme);
+    return { byId: new Map(result.nodes.map(node => [node.id, node])), connections: result.connections };
+};
+
+test('nodes take the style of their role and main branches get palette colors', () => {
+    const { byId } = themedById(theme);
+
+    expect(byId.get('root')!.color).toBe('#000000');
+    expect(byId.get('a')!.textColor).toBe('#111111');
+    expect(byId.get('a1')!.textColor).toBe('#222222');
+    expect(byId.get('a')!.borderColor).toBe('#ff0000');
+    expect(byId.get('a1')!.borderColor).toBe('#ff0000');
+    expect(byId.get('b1')!.borderColor).toBe('#00ff00');
+});
+
+test('styles set on a node are inherited by its subtree unless overridden', () => {
+    const { byId } = themedById(theme);
+
+    expect(byId.get('b')!.color).toBe('#fef3c7');
+    expect(byId.get('b1')!.color).toBe('#fef3c7');
+    expect(byId.get('b2')!.color).toBe('#bfdbfe');
+    expect(byId.get('a1')!.color).toBeUndefined();
+});
+
+test('parent-child connections take the branch color', () => {
+    const { connections } = themedById(theme);
+    expect(connections[0].color).toBe('#00ff00');
+});
+
+test('the white fill older maps stored on every node does not hide the theme', () => {
+    const legacyNodes = nodes.map(node => ({ ...node, color: '#ffffff' }));
+    const dark = getMapTheme('dark');
+    const result = applyMapTheme(legacyNodes, [], dark);
+    const byId = new Map(result.nodes.map(node => [node.id, node]));
+
+    expect(byId.get('root')!.color).toBe(dark.root.color);
+    expect(byId.get('a')!.color).toBe(dark.branch.color);
+    expect(byId.get('a1')!.color).toBe(dark.leaf.color);
+    expect(applyMapTheme(legacyNodes, [], getMapTheme('classic')).nodes[0].color).toBeUndefined();
+});
@@ -0,0 +1,159 @@
+import { Connection, MapTheme, Node, NodeStyleProperties } from '../types';
+import { organizeHierarchy } from './mindMapUtils';
+import { NodeWidthLimits, withNodeSize } from './nodeSizeUtils';
+
+export const DEFAULT_MAP_THEME_ID = 'classic';
+
+export const BUILT_IN_THEMES: MapTheme[] = [
+    {
+        id: 'classic',
+        name: 'Classic',
+        root: {},
+        branch: {},
+        leaf: {},
+        branchPalette: [],
+        paletteTarget: 'borderColor',
+    },
+    {
+        id: 'colorful',
+        name: 'Colorful',
+        root: { color: '#4f46e5', textColor: '#ffffff', fontSize: 16, bold: true, shape: 'pill', borderWidth: 0 },
+        branch: { shape: 'rounded', borderWidth: 2, bold: true },
+        leaf: { shape: 'underline', borderWidth: 2 },
+        branchPalette: ['#ef4444', '#f59e0b', '#10b981', '#3b82f6', '#8b5cf6', '#ec4899'],
+        paletteTarget: 'borderColor',
+    },
+    {
+        id: 'pastel',
+        name: 'Pastel',
+        background: '#fffdf7',
+        root: { color: '#fde68a', fontSize: 16, bold: true, shape: 'ellipse', borderColor: '#f59e0b', borderWidth: 2 },
+        branch: { shape: 'rounded', borderWidth: 0, textAlign: 'center' },
+        leaf: { shape: 'pill', borderWidth: 0, textAlign: 'center' },
+        branchPalette: ['#fed7e2', '#ddd6fe', '#d1fae5', '#bfdbfe', '#fef3c7'],
+        paletteTarget: 'color',
+    },
+    {
+        id: 'dark',
+        name: 'Dark',
+        background: '#111827',
+        root: { color: '#f9fafb', textColor: '#111827', fontSize: 16, bold: true, shape: 'pill', borderWidth: 0 },
+        branch: { color: '#1f2937', textColor: '#f9fafb', borderWidth: 2 },
+        leaf: { color: '#1f2937', textColor: '#d1d5db', borderWidth: 1 },
+        branchPalette: ['#60a5fa', '#34d399', '#fbbf24', '#f87171', '#a78bfa', '#f472b6'],
+        paletteTarget: 'borderColor',
+    },
+];
+
+export const getMapTheme = (themeId: string | undefined, customThemes: MapTheme[] = []): MapTheme => {
+    return [...BUILT_IN_THEMES, ...customThemes].find(theme => theme.id === themeId) || BUILT_IN_THEMES[0];
+};
+
+const STYLE_PROPERTIES: (keyof NodeStyleProperties)[] = [
+    'color', 'shape', 'borderColor', 'borderWidth', 'textColor', 'fontSize', 'bold', 'italic', 'textAlign',
+];
+
+// Fill that maps saved before themes stored on every node; it counts as unset, like
+// the white the node editor shows for nodes without a color of their own
+const LEGACY_NODE_COLOR = '#ffffff';
+const hasLegacyColor = (node: Node): boolean => node.color?.toLowerCase() === LEGACY_NODE_COLOR;
+
+// The style properties a node sets itself
+const getOwnStyle = (node: Node): NodeStyleProperties => {
+    const style: NodeStyleProperties = {};
+    STYLE_PROPERTIES.forEach(<K extends keyof NodeStyleProperties>(key: K) => {
+        if (node[key] !== undefined) {
+            style[key] = node[key];
+        }
+    });
+    if (hasLegacyColor(node)) {
+        delete style.color;
+    }
+    return style;
+};
+
+/**
+ * Nodes and connections as drawn with a theme. Each node takes the style of its role
+ * (root, branch or leaf) and the color of its main branch; style properties set on a
+ * node apply to its whole subtree, down to descendants that set their own. Parent-child
+ * connections without their own color take the branch color. Nodes the theme restyles are
+ * re-measured within the map's width limits.
+ */
+export const applyMapTheme = (
+    nodes: Node[],
+    connections: Connection[],
+    theme: MapTheme,
+    widthLimits?: NodeWidthLimits
+): { nodes: Node[]; connections: Connection[] } => {
+    const { roots, children } = organizeHierarchy(nodes);
+    const themed = new Map<string, Node>();
+    const branchColors = new Map<string, string>();
+
+    const visit = (node: Node, inherited: NodeStyleProperties, branchColor: string | undefined) => {
+        if (themed.has(node.id)) return;
+        const nodeChildren = children[node.id] || [];
+        const role = !node.parent ? theme.root : nodeChildren.length > 0 ? theme.branch : theme.leaf;
+        const overrides = { ...inherited, ...getOwnStyle(node) };
+        const styled: Node = {
+            ...(hasLegacyColor(node) ? { ...node, color: undefined } : node),
+            ...role,
+            ...(branchColor ? { [theme.paletteTarget]: branchColor } : {}),
+            ...overrides,
+        };
+
+        // Theme fonts and shapes change how much room the text needs
+        const resized = styled.shape !== node.shape || styled.fontSize !== node.fontSize ||
+            styled.bold !== node.bold || styled.italic !== node.italic;
+        themed.set(node.id, resized ? withNodeSize(styled, widthLimits) : styled);
+        if (branchColor) branchColors.set(node.id, branchColor);
+
+        nodeChildren.forEach((child, index) => {
+            const childBranchColor = branchColor || (!node.parent && theme.branchPalette.length > 0
+                ? theme.branchPalette[index % theme.branchPalette.length]
+                : undefined);
+            visit(child, overrides, childBranchColor);
+        });
+    };
+    roots.forEach(root => visit(root, {}, undefined));
+    // Nodes whose parent is missing are styled on their own
+    nodes.forEach(node => visit(node, {}, undefined));
+
+    return {
+        nodes: nodes.map(node => themed.get(node.id) || node),
+        connections: connections.map(connection => {
+            const branchColor = branchColors.get(connection.to);
+            return connection.type === 'parent-child' && !connection.color && branchColor
+                ? { ...connection, color: branchColor }
+                : connection;
+        }),
+    };
+};
+
+/**
+ * Custom theme capturing the styles set on a map: the first root, inner branch and
+ * leaf give the level styles and the main branches' own colors give the palette.
+ * Everything the map does not set is taken from the theme it currently uses.
+ */
+export const createThemeFromMap = (name: string, nodes: Node[], base: MapTheme): MapTheme => {
+    const { roots, children } = organizeHierarchy(nodes);
+    const hasChildren = (node: Node) => (children[node.id] || []).length > 0;
+    const styleOf = (node: Node | undefined) => (node ? getOwnStyle(node) : {});
+    const branch = nodes.find(node => node.parent && hasChildren(node));
+    const leaf = nodes.find(node => node.parent && !hasChildren(node));
+
+    const palette = roots
+        .flatMap(root => children[root.id] || [])
+        .map(node => node[base.paletteTarget])
+        .filter((color): color is string => !!color);
+
+    return {
+        ...base,
+        id: `custom-${Math.random().toString(36).substr(2, 9)}`,
+        name,
+        root: { ...base.root, ...styleOf(roots[0]) },
+        branch: { ...base.branch, ...styleOf(branch) },
+        leaf: { ...base.leaf, ...styleOf(leaf) },
+        branchPalette: palette.length > 0 ? Array.from(new Set(palette)) : base.branchPalette,
+        custom: true,
+    };
+};
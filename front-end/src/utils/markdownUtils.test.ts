@@ -0,0 +1,35 @@
+import { parseInlineMarkdown, parseMarkdown, toSafeUrl } from './markdownUtils';
+
+test('parses headings, lists, code blocks and paragraphs', () => {
+    const blocks = parseMarkdown('# Plan\n\n- one\n- two\n1. first\n\n```\nx = 1\n```\nSome text\nmore');
+
+    expect(blocks.map(block => block.type)).toEqual(['heading', 'list', 'list', 'code', 'paragraph']);
+    expect(blocks[1]).toEqual({
+        type: 'list',
+        ordered: false,
+        items: [[{ type: 'text', text: 'one' }], [{ type: 'text', text: 'two' }]],
+    });
+    expect(blocks[3]).toEqual({ type: 'code', text: 'x = 1' });
+    expect(blocks[4]).toEqual({ type: 'paragraph', content: [{ type: 'text', text: 'Some text\nmore' }] });
+});
+
+test('parses inline formatting and links', () => {
+    expect(parseInlineMarkdown('a **b** *c* `d` [e](example.com)')).toEqual([
+        { type: 'text', text: 'a ' },
+        { type: 'bold', text: 'b' },
+        { type: 'text', text: ' ' },
+        { type: 'italic', text: 'c' },
+        { type: 'text', text: ' ' },
+        { type: 'code', text: 'd' },
+        { type: 'text', text: ' ' },
+        { type: 'link', text: 'e', url: 'https://example.com' },
+    ]);
+});
+
+test('only web and mail links are opened', () => {
+    expect(toSafeUrl(' https://example.com/a ')).toBe('https://example.com/a');
+    expect(toSafeUrl('mailto:me@example.com')).toBe('mailto:me@example.com');
+    expect(toSafeUrl('data:text/html,hi')).toBeNull();
+    expect(toSafeUrl('')).toBeNull();
+    expect(parseInlineMarkdown('[x](data:text/html,hi)')[0].type).toBe('text');
+});
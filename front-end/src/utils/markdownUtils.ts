@@ -0,0 +1,104 @@
+// Small Markdown subset for node notes: headings, lists, fenced code blocks, and
+// bold, italic, inline code and links inside the text
+
+export type MarkdownInline =
+    | { type: 'text' | 'bold' | 'italic' | 'code'; text: string }
+    | { type: 'link'; text: string; url: string };
+
+export type MarkdownBlock =
+    | { type: 'heading'; level: number; content: MarkdownInline[] }
+    | { type: 'paragraph'; content: MarkdownInline[] }
+    | { type: 'list'; ordered: boolean; items: MarkdownInline[][] }
+    | { type: 'code'; text: string };
+
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+
+// URL that is safe to open, or null; addresses without a scheme are taken as https
+export const toSafeUrl = (url: string): string | null => {
+    const trimmed = url.trim();
+    if (!trimmed) return null;
+    const withScheme = /^[a-z][a-z0-9+.-]*:/i.test(trimmed) ? trimmed : `https://${trimmed}`;
+    try {
+        return SAFE_PROTOCOLS.includes(new URL(withScheme).protocol) ? withScheme : null;
+    } catch {
+        return null;
+    }
+};
+
+const INLINE_PATTERN = /\*\*(.+?)\*\*|`([^`]+)`|\[([^\]]+)\]\(([^)\s]+)\)|\*([^*]+)\*|_([^_]+)_/g;
+
+export const parseInlineMarkdown = (text: string): MarkdownInline[] => {
+    const result: MarkdownInline[] = [];
+    let last = 0;
+    for (const match of Array.from(text.matchAll(INLINE_PATTERN))) {
+        const index = match.index ?? 0;
+        if (index > last) result.push({ type: 'text', text: text.slice(last, index) });
+        const [whole, bold, code, linkText, linkUrl, italic, underscored] = match;
+        const url = linkUrl !== undefined ? toSafeUrl(linkUrl) : null;
+        if (bold !== undefined) result.push({ type: 'bold', text: bold });
+        else if (code !== undefined) result.push({ type: 'code', text: code });
+        else if (linkText !== undefined) result.push(url ? { type: 'link', text: linkText, url } : { type: 'text', text: whole });
+        else result.push({ type: 'italic', text: italic ?? underscored });
+        last = index + whole.length;
+    }
+    if (last < text.length) result.push({ type: 'text', text: text.slice(last) });
+    return result;
+};
+
+const LIST_ITEM = /^\s*(?:([-*+])|(\d+)[.)])\s+(.*)$/;
+
+export const parseMarkdown = (markdown: string): MarkdownBlock[] => {
+    const blocks: MarkdownBlock[] = [];
+    const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+    let paragraph: string[] = [];
+
+    const flushParagraph = () => {
+        if (paragraph.length > 0) {
+            blocks.push({ type: 'paragraph', content: parseInlineMarkdown(paragraph.join('\n')) });
+            paragraph = [];
+        }
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+
+        if (line.trim().startsWith('```')) {
+            flushParagraph();
+            const code: string[] = [];
+            for (i++; i < lines.length && !lines[i].trim().startsWith('```'); i++) {
+                code.push(lines[i]);
+            }
+            blocks.push({ type: 'code', text: code.join('\n') });
+            continue;
+        }
+
+        const heading = /^(#{1,3})\s+(.*)$/.exec(line);
+        if (heading) {
+            flushParagraph();
+            blocks.push({ type: 'heading', level: heading[1].length, content: parseInlineMarkdown(heading[2]) });
+            continue;
+        }
+
+        const item = LIST_ITEM.exec(line);
+        if (item) {
+            flushParagraph();
+            const ordered = item[2] !== undefined;
+            const previous = blocks[blocks.length - 1];
+            const content = parseInlineMarkdown(item[3]);
+            if (previous && previous.type === 'list' && previous.ordered === ordered) {
+                previous.items.push(content);
+            } else {
+                blocks.push({ type: 'list', ordered, items: [content] });
+            }
+            continue;
+        }
+
+        if (line.trim()) {
+            paragraph.push(line);
+        } else {
+            flushParagraph();
+        }
+    }
+    flushParagraph();
+    return blocks;
+};
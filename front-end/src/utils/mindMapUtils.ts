@@ -1,4 +1,22 @@
-import { Node, Connection } from '../types';
+import { Node, NodePosition, Connection } from '../types';
+
+// Default (and minimum) node size; nodes grow with their text, see nodeSizeUtils.ts
+export const NODE_WIDTH = 120;
+export const NODE_HEIGHT = 40;
+
+// Size of a node on the canvas, falling back to the default for nodes saved before sizes were stored
+export const getNodeSize = (node: Node): { width: number; height: number } => {
+    return {
+        width: node.width || NODE_WIDTH,
+        height: node.height || NODE_HEIGHT,
+    };
+};
+
+// Center of a node in map coordinates
+export const getNodeCenter = (node: Node): { x: number; y: number } => {
+    const { width, height } = getNodeSize(node);
+    return { x: node.x + width / 2, y: node.y + height / 2 };
+};
 
 export const generateId = (): string => {
     return Math.random().toString(36).substr(2, 9);
@@ -11,7 +29,6 @@ export const createNewNode = (x: number, y: number, text: string = 'New Node'):
         x,
         y,
         parent: null,
-        color: '#ffffff',
     };
 };
 
@@ -55,7 +72,6 @@ export const createChildNode = (parentNode: Node, offset: { x: number; y: number
         x: parentNode.x + offset.x,
         y: parentNode.y + offset.y,
         parent: parentNode.id,
-        color: '#ffffff',
     };
 };
 
@@ -63,6 +79,47 @@ export const findChildren = (parentId: string, nodes: Node[]): Node[] => {
     return nodes.filter(node => node.parent === parentId);
 };
 
+// All nodes below the given node in the parent hierarchy (guards against cycles)
+export const findDescendants = (nodeId: string, nodes: Node[]): Node[] => {
+    const { children } = organizeHierarchy(nodes);
+    const descendants: Node[] = [];
+    const visited = new Set<string>([nodeId]);
+    const queue = [nodeId];
+
+    while (queue.length > 0) {
+        const current = queue.shift()!;
+        (children[current] || []).forEach(child => {
+            if (!visited.has(child.id)) {
+                visited.add(child.id);
+                descendants.push(child);
+                queue.push(child.id);
+            }
+        });
+    }
+
+    return descendants;
+};
+
+// Whether a node may be moved under a new parent: not onto itself or its current
+// parent, and not onto one of its own descendants, which would create a cycle
+export const canReparent = (nodeId: string, newParentId: string, nodes: Node[]): boolean => {
+    if (nodeId === newParentId) return false;
+    const node = nodes.find(n => n.id === nodeId);
+    if (!node || node.parent === newParentId) return false;
+    return !findDescendants(nodeId, nodes).some(descendant => descendant.id === newParentId);
+};
+
+// Ids of nodes hidden because an ancestor is collapsed
+export const getHiddenNodeIds = (nodes: Node[]): Set<string> => {
+    const hidden = new Set<string>();
+    nodes.forEach(node => {
+        if (node.collapsed && !hidden.has(node.id)) {
+            findDescendants(node.id, nodes).forEach(descendant => hidden.add(descendant.id));
+        }
+    });
+    return hidden;
+};
+
 export const findParent = (childId: string, nodes: Node[]): Node | null => {
     const child = nodes.find(node => node.id === childId);
     if (!child || !child.parent) return null;
@@ -78,6 +135,15 @@ export const updateNodePosition = (nodeId: string, newPosition: { x: number; y:
     });
 };
 
+// Nodes moved to the given positions, e.g. ones computed on the themed copies of them
+export const updateNodePositions = (positions: NodePosition[], nodes: Node[]): Node[] => {
+    const byId = new Map(positions.map(position => [position.id, position]));
+    return nodes.map(node => {
+        const position = byId.get(node.id);
+        return position ? { ...node, x: position.x, y: position.y } : node;
+    });
+};
+
 export const organizeHierarchy = (nodes: Node[]): { roots: Node[]; children: { [parentId: string]: Node[] } } => {
     const roots: Node[] = [];
     const children: { [parentId: string]: Node[] } = {};
@@ -128,8 +194,8 @@ export const isValidConnection = (
 export const getCanvasBounds = (nodes: Node[]): { width: number; height: number } => {
     if (nodes.length === 0) return { width: 800, height: 600 };
 
-    const maxX = Math.max(...nodes.map(node => node.x + 120)); // 120 is node width
-    const maxY = Math.max(...nodes.map(node => node.y + 40));  // 40 is node height
+    const maxX = Math.max(...nodes.map(node => node.x + getNodeSize(node).width));
+    const maxY = Math.max(...nodes.map(node => node.y + getNodeSize(node).height));
 
     return {
         width: Math.max(800, maxX + 100),
@@ -137,6 +203,37 @@ export const getCanvasBounds = (nodes: Node[]): { width: number; height: number
     };
 };
 
+// Bounding box of all given nodes in map coordinates, or null when there are none
+export const getNodesBounds = (nodes: Node[]): { x: number; y: number; width: number; height: number } | null => {
+    if (nodes.length === 0) return null;
+
+    const minX = Math.min(...nodes.map(node => node.x));
+    const minY = Math.min(...nodes.map(node => node.y));
+    const maxX = Math.max(...nodes.map(node => node.x + getNodeSize(node).width));
+    const maxY = Math.max(...nodes.map(node => node.y + getNodeSize(node).height));
+
+    return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
+
+// Nodes whose box intersects the given rectangle (used by marquee selection)
+export const getNodesInRect = (
+    nodes: Node[],
+    rect: { x: number; y: number; width: number; height: number }
+): Node[] => {
+    const left = Math.min(rect.x, rect.x + rect.width);
+    const right = Math.max(rect.x, rect.x + rect.width);
+    const top = Math.min(rect.y, rect.y + rect.height);
+    const bottom = Math.max(rect.y, rect.y + rect.height);
+
+    return nodes.filter(node => {
+        const { width, height } = getNodeSize(node);
+        return node.x < right &&
+            node.x + width > left &&
+            node.y < bottom &&
+            node.y + height > top;
+    });
+};
+
 // Utility function to determine connection type based on node relationships
 export const determineConnectionType = (
     connection: Connection,
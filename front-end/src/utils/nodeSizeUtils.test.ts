@@ -0,0 +1,54 @@
+import { NODE_WIDTH, NODE_HEIGHT } from './mindMapUtils';
+import { wrapText, measureNodeSize, getNodeWidthLimits, DEFAULT_NODE_SIZE_OPTIONS } from './nodeSizeUtils';
+import { IMAGE_GAP } from './imageUtils';
+
+// Every character is 6px wide
+const measure = (text: string) => text.length * 6;
+
+test('short text keeps the default node size', () => {
+    expect(measureNodeSize('Idea', {}, measure)).toEqual({ width: NODE_WIDTH, height: NODE_HEIGHT });
+});
+
+test('text wider than the minimum widens the node up to the maximum width', () => {
+    const size = measureNodeSize('a'.repeat(25), { minWidth: 100, maxWidth: 300, paddingX: 10 }, measure);
+    expect(size.width).toBe(25 * 6 + 20);
+    expect(size.height).toBe(NODE_HEIGHT);
+});
+
+test('long text wraps onto more lines and grows the node vertically', () => {
+    const options = { minWidth: 60, maxWidth: 100, paddingX: 10, paddingY: 10, fontSize: 10, lineHeight: 1.5 };
+    const lines = wrapText('one two three four five six', 80, measure);
+    const size = measureNodeSize('one two three four five six', options, measure);
+
+    expect(lines).toEqual(['one two three', 'four five six']);
+    expect(size).toEqual({ width: 13 * 6 + 20, height: 2 * 15 + 20 });
+    expect(measureNodeSize('one\ntwo\nthree', options, measure).height).toBe(3 * 15 + 20);
+});
+
+test('words longer than a line are broken up', () => {
+    expect(wrapText('abcdefghij', 24, measure)).toEqual(['abcd', 'efgh', 'ij']);
+});
+
+test('shapes with less room for text get bigger nodes', () => {
+    const size = measureNodeSize('a'.repeat(10), { maxWidth: 300, textRatio: 0.5 }, measure);
+    expect(size).toEqual({ width: (10 * 6 + 20) / 0.5, height: Math.ceil((12 * 1.2 + 24) / 0.5) });
+});
+
+test('an image adds its height above the text and can widen the node', () => {
+    const image = { width: 200, height: 100 };
+    const size = measureNodeSize('Idea', { maxWidth: 150, paddingX: 10, paddingY: 10, image }, measure);
+    expect(size).toEqual({ width: 220, height: Math.ceil(12 * 1.2 + 100 + IMAGE_GAP + 20) });
+});
+
+test('each node width setting gives its own width range, normal by default', () => {
+    const defaults = { minWidth: DEFAULT_NODE_SIZE_OPTIONS.minWidth, maxWidth: DEFAULT_NODE_SIZE_OPTIONS.maxWidth };
+    expect(getNodeWidthLimits(undefined)).toEqual(defaults);
+    expect(getNodeWidthLimits('normal')).toEqual(defaults);
+
+    const text = 'a'.repeat(50);
+    const compact = measureNodeSize(text, getNodeWidthLimits('compact'), measure);
+    const wide = measureNodeSize(text, getNodeWidthLimits('wide'), measure);
+    expect(compact.width).toBeLessThanOrEqual(getNodeWidthLimits('compact').maxWidth);
+    expect(wide.width).toBe(50 * 6 + DEFAULT_NODE_SIZE_OPTIONS.paddingX * 2);
+    expect(compact.height).toBeGreaterThan(wide.height);
+});
@@ -0,0 +1,162 @@
+import { Node, NodeWidth } from '../types';
+import { NODE_WIDTH, NODE_HEIGHT } from './mindMapUtils';
+import { getFontStyle, getNodeLabel, getNodeStyle, getShapeTextRatio } from './nodeStyleUtils';
+import { IMAGE_GAP } from './imageUtils';
+
+export interface NodeSizeOptions {
+    minWidth: number;
+    maxWidth: number;     // Text wraps once a node reaches this width
+    minHeight: number;
+    paddingX: number;
+    paddingY: number;
+    fontSize: number;
+    fontFamily: string;
+    fontStyle: string;    // 'normal', 'bold', 'italic' or 'italic bold'
+    lineHeight: number;   // Multiple of the font size, as in Konva's Text
+    textRatio: number;    // Share of the node's width and height available for text
+    image: { width: number; height: number } | null; // Thumbnail drawn above the text
+}
+
+export const DEFAULT_NODE_SIZE_OPTIONS: NodeSizeOptions = {
+    minWidth: NODE_WIDTH,
+    maxWidth: 240,
+    minHeight: NODE_HEIGHT,
+    paddingX: 10,
+    paddingY: 12,
+    fontSize: 12,
+    fontFamily: 'Arial',
+    fontStyle: 'normal',
+    lineHeight: 1.2,
+    textRatio: 1,
+    image: null,
+};
+
+export const DEFAULT_NODE_WIDTH: NodeWidth = 'normal';
+
+// Width ranges a map can size its nodes within
+export const NODE_WIDTH_OPTIONS: { nodeWidth: NodeWidth; label: string; minWidth: number; maxWidth: number }[] = [
+    { nodeWidth: 'compact', label: 'Compact', minWidth: 80, maxWidth: 160 },
+    { nodeWidth: 'normal', label: 'Normal', minWidth: DEFAULT_NODE_SIZE_OPTIONS.minWidth, maxWidth: DEFAULT_NODE_SIZE_OPTIONS.maxWidth },
+    { nodeWidth: 'wide', label: 'Wide', minWidth: 160, maxWidth: 400 },
+];
+
+export type NodeWidthLimits = Pick<NodeSizeOptions, 'minWidth' | 'maxWidth'>;
+
+export const getNodeWidthLimits = (nodeWidth: NodeWidth = DEFAULT_NODE_WIDTH): NodeWidthLimits => {
+    const option = NODE_WIDTH_OPTIONS.find(o => o.nodeWidth === nodeWidth) || DEFAULT_NODE_SIZE_OPTIONS;
+    return { minWidth: option.minWidth, maxWidth: option.maxWidth };
+};
+
+type MeasureText = (text: string) => number;
+
+let measureContext: CanvasRenderingContext2D | null | undefined;
+
+// Measure with a canvas context so the result matches what Konva draws
+const createCanvasMeasure = (fontSize: number, fontFamily: string, fontStyle: string = 'normal'): MeasureText => {
+    if (measureContext === undefined) {
+        measureContext = document.createElement('canvas').getContext('2d');
+    }
+    const context = measureContext;
+    if (!context) {
+        // Rough average glyph width when no canvas is available
+        return text => text.length * fontSize * 0.6;
+    }
+    return text => {
+        context.font = `${fontStyle} ${fontSize}px ${fontFamily}`;
+        return context.measureText(text).width;
+    };
+};
+
+// Width of a single line of text as drawn on the canvas
+export const measureTextWidth = (
+    text: string,
+    fontSize: number,
+    fontFamily: string = 'Arial',
+    fontStyle: string = 'normal'
+): number => {
+    return createCanvasMeasure(fontSize, fontFamily, fontStyle)(text);
+};
+
+// Break a word that does not fit on a line of its own into chunks that do
+const breakWord = (word: string, maxWidth: number, measure: MeasureText): string[] => {
+    const parts: string[] = [];
+    let current = '';
+    for (const char of word) {
+        if (current && measure(current + char) > maxWidth) {
+            parts.push(current);
+            current = char;
+        } else {
+            current += char;
+        }
+    }
+    if (current) parts.push(current);
+    return parts;
+};
+
+/**
+ * Split text into the lines drawn on a node: explicit line breaks are kept and
+ * longer lines are word-wrapped to the given width.
+ */
+export const wrapText = (text: string, maxWidth: number, measure: MeasureText): string[] => {
+    const lines: string[] = [];
+
+    text.split('\n').forEach(paragraph => {
+        let line = '';
+        paragraph.split(' ').forEach(word => {
+            const candidate = line ? `${line} ${word}` : word;
+            if (measure(candidate) <= maxWidth) {
+                line = candidate;
+                return;
+            }
+            if (line) lines.push(line);
+
+            if (measure(word) <= maxWidth) {
+                line = word;
+            } else {
+                const parts = breakWord(word, maxWidth, measure);
+                lines.push(...parts.slice(0, -1));
+                line = parts[parts.length - 1] || '';
+            }
+        });
+        lines.push(line);
+    });
+
+    return lines;
+};
+
+// Size of a node fitted to its text, between the configured minimum and maximum width
+export const measureNodeSize = (
+    text: string,
+    options: Partial<NodeSizeOptions> = {},
+    measure?: MeasureText
+): { width: number; height: number } => {
+    const config = { ...DEFAULT_NODE_SIZE_OPTIONS, ...options };
+    const measureText = measure || createCanvasMeasure(config.fontSize, config.fontFamily, config.fontStyle);
+    const ratio = config.textRatio;
+    const lines = wrapText(text, config.maxWidth * ratio - config.paddingX * 2, measureText);
+    const textWidth = Math.max(0, ...lines.map(line => measureText(line)));
+    const textHeight = lines.length * config.fontSize * config.lineHeight;
+    // An image may make the node wider than text alone would
+    const imageWidth = config.image ? (config.image.width + config.paddingX * 2) / ratio : 0;
+    const imageHeight = config.image ? config.image.height + IMAGE_GAP : 0;
+
+    return {
+        width: Math.ceil(Math.max(imageWidth, Math.min(config.maxWidth, Math.max(config.minWidth, (textWidth + config.paddingX * 2) / ratio)))),
+        height: Math.ceil(Math.max(config.minHeight, (textHeight + imageHeight + config.paddingY * 2) / ratio)),
+    };
+};
+
+// Node with width/height updated for its current text, font and shape, within the
+// map's width range when one is given
+export const withNodeSize = (node: Node, options: Partial<NodeSizeOptions> = {}): Node => {
+    const style = getNodeStyle(node);
+    const { width, height } = measureNodeSize(getNodeLabel(node), {
+        fontSize: style.fontSize,
+        fontStyle: getFontStyle(style),
+        textRatio: getShapeTextRatio(style.shape),
+        image: node.image || null,
+        ...options,
+    });
+    if (node.width === width && node.height === height) return node;
+    return { ...node, width, height };
+};
@@ -0,0 +1,110 @@
+import { Node, NodeShape, NodeTextAlign } from '../types';
+
+export const NODE_SHAPE_OPTIONS: { shape: NodeShape; label: string }[] = [
+    { shape: 'rounded', label: '▢ Rounded' },
+    { shape: 'rectangle', label: '□ Rectangle' },
+    { shape: 'pill', label: '⬭ Pill' },
+    { shape: 'ellipse', label: '◯ Ellipse' },
+    { shape: 'diamond', label: '◇ Diamond' },
+    { shape: 'cloud', label: '☁ Cloud' },
+    { shape: 'underline', label: '▁ Underline only' },
+];
+
+export const FONT_SIZE_OPTIONS = [10, 12, 14, 16, 20, 24, 32];
+
+export interface NodeStyle {
+    shape: NodeShape;
+    borderColor: string;
+    borderWidth: number;
+    textColor: string;
+    fontSize: number;
+    bold: boolean;
+    italic: boolean;
+    textAlign: NodeTextAlign;
+}
+
+// How nodes looked before they could be styled
+export const DEFAULT_NODE_STYLE: NodeStyle = {
+    shape: 'rounded',
+    borderColor: '#d1d5db',
+    borderWidth: 1,
+    textColor: '#1f2937',
+    fontSize: 12,
+    bold: false,
+    italic: false,
+    textAlign: 'left',
+};
+
+// Effective style of a node, with defaults (e.g. colors of the app theme) for everything it does not set
+export const getNodeStyle = (node: Node, defaults: Partial<NodeStyle> = {}): NodeStyle => {
+    const fallback = { ...DEFAULT_NODE_STYLE, ...defaults };
+    return {
+        shape: node.shape || fallback.shape,
+        borderColor: node.borderColor || fallback.borderColor,
+        borderWidth: node.borderWidth ?? fallback.borderWidth,
+        textColor: node.textColor || fallback.textColor,
+        fontSize: node.fontSize || fallback.fontSize,
+        bold: !!node.bold,
+        italic: !!node.italic,
+        textAlign: node.textAlign || fallback.textAlign,
+    };
+};
+
+// Dark or light text, whichever reads better on the given #rrggbb fill
+export const getReadableTextColor = (fill: string): string => {
+    const match = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(fill);
+    if (!match) return DEFAULT_NODE_STYLE.textColor;
+    const [r, g, b] = match.slice(1).map(hex => parseInt(hex, 16));
+    // Perceived brightness (ITU-R BT.601 weights)
+    return (r * 299 + g * 587 + b * 114) / 1000 > 140 ? DEFAULT_NODE_STYLE.textColor : '#f9fafb';
+};
+
+export const NODE_ICON_OPTIONS = [
+    '💡', '⭐', '✅', '❓', '⚠️', '🔥', '🎯', '📌',
+    '🚀', '📅', '💰', '👤', '🔒', '🐛', '❤️', '🧪',
+];
+
+// Text as drawn on the canvas, with the node's icon in front
+export const getNodeLabel = (node: Node): string => {
+    return node.icon ? `${node.icon} ${node.text}` : node.text;
+};
+
+// Font style string as Konva's Text and the canvas font shorthand expect it
+export const getFontStyle = (style: { bold: boolean; italic: boolean }): string => {
+    if (style.bold && style.italic) return 'italic bold';
+    if (style.bold) return 'bold';
+    if (style.italic) return 'italic';
+    return 'normal';
+};
+
+// Share of a node's width and height that holds text; curved shapes leave their corners empty
+const SHAPE_TEXT_RATIO: { [shape in NodeShape]: number } = {
+    rectangle: 1,
+    rounded: 1,
+    pill: 1,
+    underline: 1,
+    ellipse: 0.75,
+    cloud: 0.7,
+    diamond: 0.55,
+};
+
+export const getShapeTextRatio = (shape: NodeShape): number => SHAPE_TEXT_RATIO[shape];
+
+// Rectangle inside a node of the given size where its text is laid out, before padding
+export const getTextArea = (shape: NodeShape, width: number, height: number) => {
+    const ratio = SHAPE_TEXT_RATIO[shape];
+    return {
+        x: (width * (1 - ratio)) / 2,
+        y: (height * (1 - ratio)) / 2,
+        width: width * ratio,
+        height: height * ratio,
+    };
+};
+
+// Properties whose change means the node has to be measured again
+const SIZE_PROPERTIES: (keyof Node)[] = ['text', 'icon', 'image', 'shape', 'fontSize', 'bold', 'italic'];
+
+export const affectsNodeSize = (updates: Partial<Node>): boolean => {
+    // Checked by key, since removing an image sets it to undefined
+    return SIZE_PROPERTIES.some(key => key in updates);
+};
@@ -0,0 +1,53 @@
+import { Node } from '../types';
+import { buildMapSearchIndex, buildSearchPattern, findMatchingNodes, getSnippet, replaceInText, searchMaps } from './searchUtils';
+
+const makeNode = (id: string, text: string, x: number, y: number): Node => ({ id, text, x, y, parent: null });
+
+const nodes = [
+    makeNode('a', 'Budget 2024', 200, 0),
+    makeNode('b', 'Plan (draft)', 0, 100),
+    makeNode('c', 'budget review', 0, 0),
+];
+
+test('finds nodes case-insensitively in reading order', () => {
+    expect(findMatchingNodes(nodes, buildSearchPattern('BUDGET', { regex: false }))).toEqual(['c', 'a']);
+    expect(findMatchingNodes(nodes, buildSearchPattern('(draft)', { regex: false }))).toEqual(['b']);
+    expect(findMatchingNodes(nodes, buildSearchPattern('\\d{4}', { regex: true }))).toEqual(['a']);
+});
+
+test('empty and invalid queries match nothing', () => {
+    expect(buildSearchPattern('', { regex: false })).toBeNull();
+    expect(buildSearchPattern('(', { regex: true })).toBeNull();
+});
+
+test('replaces every match, with groups only in regex mode', () => {
+    const plain = buildSearchPattern('budget', { regex: false })!;
+    expect(replaceInText('Budget and budget', plain, 'Cost $1', { regex: false })).toBe('Cost $1 and Cost $1');
+
+    const regex = buildSearchPattern('(\\d+)', { regex: true })!;
+    expect(replaceInText('Budget 2024', regex, '[$1]', { regex: true })).toBe('Budget [2024]');
+});
+
+test('searches titles and node texts of every map, grouped by map', () => {
+    const index = buildMapSearchIndex([
+        { id: 'm1', title: 'Budget', nodes },
+        { id: 'm2', title: 'Travel', nodes: [makeNode('t', 'Budget for\nflights', 0, 0)] },
+        { id: 'm3', title: 'Empty', nodes: [] },
+    ]);
+
+    const results = searchMaps(index, 'budget');
+    expect(results.map(result => [result.mapId, result.titleMatch, result.nodes.map(node => node.nodeId)])).toEqual([
+        ['m1', true, ['a', 'c']],
+        ['m2', false, ['t']],
+    ]);
+    expect(searchMaps(index, 'budget flights').map(result => result.mapId)).toEqual(['m2']);
+    expect(searchMaps(index, '   ')).toEqual([]);
+});
+
+test('snippets cut the text around the first match', () => {
+    expect(getSnippet('Review the quarterly budget before the board meeting', 'BUDGET', 10)).toEqual({
+        before: '…quarterly ',
+        match: 'budget',
+        after: ' before th…',
+    });
+});
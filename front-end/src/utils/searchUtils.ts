@@ -0,0 +1,114 @@
+import { Node } from '../types';
+
+export interface SearchOptions {
+    regex: boolean; // Treat the query as a regular expression instead of plain text
+}
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Case-insensitive pattern for the query; null when it is empty or not a valid expression
+export const buildSearchPattern = (query: string, options: SearchOptions): RegExp | null => {
+    if (!query) return null;
+    try {
+        return new RegExp(options.regex ? query : escapeRegExp(query), 'gi');
+    } catch {
+        return null;
+    }
+};
+
+const matches = (text: string, pattern: RegExp): boolean => {
+    pattern.lastIndex = 0;
+    const found = pattern.test(text);
+    pattern.lastIndex = 0;
+    return found;
+};
+
+// Ids of nodes whose text matches, in reading order (top to bottom, then left to right)
+export const findMatchingNodes = (nodes: Node[], pattern: RegExp | null): string[] => {
+    if (!pattern) return [];
+    return nodes
+        .filter(node => matches(node.text, pattern))
+        .sort((a, b) => a.y - b.y || a.x - b.x)
+        .map(node => node.id);
+};
+
+/**
+ * Text with every match replaced. With a regular expression the replacement may
+ * refer to groups ($1, $2, ...); plain searches insert it literally.
+ */
+export const replaceInText = (text: string, pattern: RegExp, replacement: string, options: SearchOptions): string => {
+    pattern.lastIndex = 0;
+    return options.regex
+        ? text.replace(pattern, replacement)
+        : text.replace(pattern, () => replacement);
+};
+
+// One searchable text of a stored map: its title (nodeId null) or the text of one node
+export interface MapSearchEntry {
+    mapId: string;
+    mapTitle: string;
+    nodeId: string | null;
+    text: string;
+    normalized: string; // Lower-cased text with whitespace collapsed
+}
+
+export interface SearchSnippet {
+    before: string;
+    match: string;
+    after: string;
+}
+
+export interface MapSearchResult {
+    mapId: string;
+    mapTitle: string;
+    titleMatch: boolean;
+    nodes: { nodeId: string; snippet: SearchSnippet }[];
+}
+
+const collapseWhitespace = (text: string): string => text.replace(/\s+/g, ' ').trim();
+
+export const buildMapSearchIndex = (maps: { id: string; title: string; nodes: Node[] }[]): MapSearchEntry[] =>
+    maps.flatMap(map => [
+        { id: null, text: map.title },
+        ...map.nodes.map(node => ({ id: node.id, text: node.text })),
+    ].map(({ id, text }) => {
+        const collapsed = collapseWhitespace(text);
+        return { mapId: map.id, mapTitle: map.title, nodeId: id, text: collapsed, normalized: collapsed.toLowerCase() };
+    }));
+
+// The text around the first occurrence of the term, cut to a few words on each side
+export const getSnippet = (text: string, term: string, context: number = 30): SearchSnippet => {
+    const index = Math.max(0, text.toLowerCase().indexOf(term.toLowerCase()));
+    const end = index + term.length;
+    const start = Math.max(0, index - context);
+    return {
+        before: (start > 0 ? '…' : '') + text.slice(start, index),
+        match: text.slice(index, end),
+        after: text.slice(end, end + context) + (end + context < text.length ? '…' : ''),
+    };
+};
+
+/**
+ * Entries containing every word of the query, grouped by map in index order. A map
+ * shows up when its title matches, any of its nodes do, or both.
+ */
+export const searchMaps = (index: MapSearchEntry[], query: string): MapSearchResult[] => {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    if (terms.length === 0) return [];
+
+    const results = new Map<string, MapSearchResult>();
+    index.forEach(entry => {
+        if (!terms.every(term => entry.normalized.includes(term))) return;
+        let result = results.get(entry.mapId);
+        if (!result) {
+            result = { mapId: entry.mapId, mapTitle: entry.mapTitle, titleMatch: false, nodes: [] };
+            results.set(entry.mapId, result);
+        }
+        if (entry.nodeId === null) {
+            result.titleMatch = true;
+        } else {
+            result.nodes.push({ nodeId: entry.nodeId, snippet: getSnippet(entry.text, terms[0]) });
+        }
+    });
+    return Array.from(results.values());
+};
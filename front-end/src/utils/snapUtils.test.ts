@@ -0,0 +1,32 @@
+import { Node } from '../types';
+import { computeSmartGuides, snapToGrid } from './snapUtils';
+import { distributeNodes } from './alignmentUtils';
+
+test('snaps to the grid', () => {
+    expect(snapToGrid(29)).toBe(20);
+    expect(snapToGrid(31)).toBe(40);
+    expect(snapToGrid(-9, 10)).toBe(-10);
+});
+
+test('a dragged box snaps to nearby edges and reports the guide', () => {
+    const moving = { x: 103, y: 300, width: 120, height: 40 };
+    const other = { x: 100, y: 0, width: 200, height: 40 };
+    const { dx, dy, guides } = computeSmartGuides(moving, [other], 6);
+
+    expect(dx).toBe(-3);
+    expect(dy).toBeNull();
+    expect(guides).toEqual([{ orientation: 'vertical', position: 100, start: 0, end: 340 }]);
+});
+
+test('nothing snaps when no edge is within reach', () => {
+    const result = computeSmartGuides({ x: 0, y: 0, width: 10, height: 10 }, [{ x: 50, y: 50, width: 10, height: 10 }], 6);
+    expect(result).toEqual({ dx: null, dy: null, guides: [] });
+});
+
+test('distributing spaces nodes evenly between the outermost ones', () => {
+    const makeNode = (id: string, x: number): Node => ({ id, text: id, x, y: 0, parent: null });
+    const nodes = [makeNode('a', 0), makeNode('b', 400), makeNode('c', 150)];
+    const distributed = distributeNodes(nodes, ['a', 'b', 'c'], 'horizontal');
+
+    expect(distributed.map(node => node.x)).toEqual([0, 400, 200]);
+});
@@ -0,0 +1,97 @@
+import { Node } from '../types';
+import { getNodeSize } from './mindMapUtils';
+
+export const GRID_SIZE = 20;
+
+// Screen pixels within which a dragged node snaps to a guide
+export const SNAP_DISTANCE = 6;
+
+export interface Box {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+// Line drawn while dragging to show which edges or centers line up
+export interface SnapGuide {
+    orientation: 'vertical' | 'horizontal';
+    position: number;   // x of a vertical guide, y of a horizontal one
+    start: number;
+    end: number;
+}
+
+export const snapToGrid = (value: number, gridSize: number = GRID_SIZE): number => {
+    return Math.round(value / gridSize) * gridSize;
+};
+
+export const getNodeBox = (node: Node): Box => {
+    return { x: node.x, y: node.y, ...getNodeSize(node) };
+};
+
+// Common bounding box of several boxes
+export const unionBoxes = (boxes: Box[]): Box | null => {
+    if (boxes.length === 0) return null;
+    const minX = Math.min(...boxes.map(box => box.x));
+    const minY = Math.min(...boxes.map(box => box.y));
+    const maxX = Math.max(...boxes.map(box => box.x + box.width));
+    const maxY = Math.max(...boxes.map(box => box.y + box.height));
+    return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
+
+// Left/center/right or top/middle/bottom lines of a box
+const verticalLines = (box: Box) => [box.x, box.x + box.width / 2, box.x + box.width];
+const horizontalLines = (box: Box) => [box.y, box.y + box.height / 2, box.y + box.height];
+
+// Smallest offset that lines one of the moving lines up with one of the others, if within reach
+const closestOffset = (moving: number[], others: number[][], threshold: number): number | null => {
+    let best: number | null = null;
+    others.forEach(lines => lines.forEach(line => moving.forEach(position => {
+        const offset = line - position;
+        if (Math.abs(offset) <= threshold && (best === null || Math.abs(offset) < Math.abs(best))) {
+            best = offset;
+        }
+    })));
+    return best;
+};
+
+/**
+ * Snap a dragged box to the edges and centers of the other boxes. Returns the
+ * correction to apply to the drag (null per axis when nothing is in reach) and
+ * the guides to draw for every line that matches after snapping.
+ */
+export const computeSmartGuides = (
+    moving: Box,
+    others: Box[],
+    threshold: number
+): { dx: number | null; dy: number | null; guides: SnapGuide[] } => {
+    const dx = closestOffset(verticalLines(moving), others.map(verticalLines), threshold);
+    const dy = closestOffset(horizontalLines(moving), others.map(horizontalLines), threshold);
+    const snapped = { ...moving, x: moving.x + (dx || 0), y: moving.y + (dy || 0) };
+
+    const guides: SnapGuide[] = [];
+    const addGuides = (orientation: SnapGuide['orientation']) => {
+        const vertical = orientation === 'vertical';
+        const movingLines = vertical ? verticalLines(snapped) : horizontalLines(snapped);
+        movingLines.forEach(position => {
+            const matches = others.filter(box =>
+                (vertical ? verticalLines(box) : horizontalLines(box)).some(line => Math.abs(line - position) < 0.5)
+            );
+            if (matches.length === 0) return;
+
+            const spans = [snapped, ...matches].map(box => vertical
+                ? [box.y, box.y + box.height]
+                : [box.x, box.x + box.width]);
+            guides.push({
+                orientation,
+                position,
+                start: Math.min(...spans.map(span => span[0])),
+                end: Math.max(...spans.map(span => span[1])),
+            });
+        });
+    };
+    if (dx !== null) addGuides('vertical');
+    if (dy !== null) addGuides('horizontal');
+
+    return { dx, dy, guides };
+};
@@ -0,0 +1,25 @@
+import { Node } from '../types';
+import { collectTags, getFilteredOutIds, normalizeTag } from './tagUtils';
+
+const makeNode = (id: string, tags?: string[]): Node => ({ id, text: id, x: 0, y: 0, parent: null, tags });
+
+const nodes = [
+    makeNode('a', ['urgent', 'backend']),
+    makeNode('b', ['backend']),
+    makeNode('c', ['urgent']),
+    makeNode('d'),
+];
+
+test('tags are normalized and collected without duplicates', () => {
+    expect(normalizeTag('  #Needs Review ')).toBe('needs-review');
+    expect(collectTags(nodes)).toEqual(['backend', 'urgent']);
+});
+
+test('OR filters keep nodes with any tag, AND filters only nodes with all of them', () => {
+    const or = getFilteredOutIds(nodes, { tags: ['urgent', 'backend'], mode: 'or', display: 'dim' });
+    const and = getFilteredOutIds(nodes, { tags: ['urgent', 'backend'], mode: 'and', display: 'dim' });
+
+    expect(Array.from(or)).toEqual(['d']);
+    expect(Array.from(and)).toEqual(['b', 'c', 'd']);
+    expect(getFilteredOutIds(nodes, { tags: [], mode: 'and', display: 'hide' }).size).toBe(0);
+});
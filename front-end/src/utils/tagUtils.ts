@@ -0,0 +1,38 @@
+import { Node } from '../types';
+
+export type TagFilterMode = 'and' | 'or';
+
+// Tags picked in the filter bar and what happens to nodes that do not match them
+export interface TagFilter {
+    tags: string[];
+    mode: TagFilterMode;    // Match all of the tags, or any of them
+    display: 'dim' | 'hide';
+}
+
+export const EMPTY_TAG_FILTER: TagFilter = { tags: [], mode: 'or', display: 'dim' };
+
+// Tags are stored trimmed, lowercase and without a leading '#'
+export const normalizeTag = (tag: string): string => {
+    return tag.trim().replace(/^#+/, '').replace(/\s+/g, '-').toLowerCase();
+};
+
+// Every tag used by the given nodes, sorted and without duplicates
+export const collectTags = (nodes: Node[]): string[] => {
+    const tags = new Set<string>();
+    nodes.forEach(node => (node.tags || []).forEach(tag => tags.add(tag)));
+    return Array.from(tags).sort();
+};
+
+export const matchesTagFilter = (node: Node, filter: TagFilter): boolean => {
+    if (filter.tags.length === 0) return true;
+    const tags = node.tags || [];
+    return filter.mode === 'and'
+        ? filter.tags.every(tag => tags.includes(tag))
+        : filter.tags.some(tag => tags.includes(tag));
+};
+
+// Ids of the nodes the filter does not match; empty while no tag is picked
+export const getFilteredOutIds = (nodes: Node[], filter: TagFilter): Set<string> => {
+    if (filter.tags.length === 0) return new Set();
+    return new Set(nodes.filter(node => !matchesTagFilter(node, filter)).map(node => node.id));
+};
@@ -0,0 +1,36 @@
+import { Node } from '../types';
+import { getProgressPercent, getTaskProgress, isTaskOverdue } from './taskUtils';
+
+const makeNode = (id: string, parent: string | null, done?: boolean): Node => ({
+    id,
+    text: id,
+    x: 0,
+    y: 0,
+    parent,
+    ...(done !== undefined && { task: { done } }),
+});
+
+test('parents roll up the tasks of all their descendants', () => {
+    const nodes = [
+        makeNode('root', null),
+        makeNode('a', 'root', true),
+        makeNode('a1', 'a', false),
+        makeNode('a2', 'a', true),
+        makeNode('b', 'root'),
+        makeNode('b1', 'b'),
+    ];
+    const progress = getTaskProgress(nodes);
+
+    expect(progress.get('root')).toEqual({ done: 2, total: 3 });
+    expect(progress.get('a')).toEqual({ done: 1, total: 2 });
+    expect(progress.has('b')).toBe(false);
+    expect(progress.has('a1')).toBe(false);
+    expect(getProgressPercent(progress.get('root')!)).toBe(67);
+});
+
+test('open tasks are overdue after their due date', () => {
+    expect(isTaskOverdue({ done: false, dueDate: '2024-01-01' }, '2024-01-02')).toBe(true);
+    expect(isTaskOverdue({ done: false, dueDate: '2024-01-02' }, '2024-01-02')).toBe(false);
+    expect(isTaskOverdue({ done: true, dueDate: '2024-01-01' }, '2024-01-02')).toBe(false);
+    expect(isTaskOverdue({ done: false }, '2024-01-02')).toBe(false);
+});
@@ -0,0 +1,70 @@
+import { Node, NodeTask } from '../types';
+import { organizeHierarchy } from './mindMapUtils';
+
+export const TASK_PRIORITY_OPTIONS: { priority: number; label: string; color: string }[] = [
+    { priority: 1, label: 'P1 · Highest', color: '#ef4444' },
+    { priority: 2, label: 'P2 · High', color: '#f97316' },
+    { priority: 3, label: 'P3 · Medium', color: '#f59e0b' },
+    { priority: 4, label: 'P4 · Low', color: '#3b82f6' },
+    { priority: 5, label: 'P5 · Lowest', color: '#6b7280' },
+];
+
+export const getPriorityColor = (priority: number): string => {
+    const option = TASK_PRIORITY_OPTIONS.find(candidate => candidate.priority === priority);
+    return option ? option.color : '#6b7280';
+};
+
+export interface TaskProgress {
+    done: number;
+    total: number;
+}
+
+/**
+ * Completed and total tasks among the descendants of every node, for showing a
+ * roll-up on parents. Nodes without descendant tasks are left out.
+ */
+export const getTaskProgress = (nodes: Node[]): Map<string, TaskProgress> => {
+    const { children } = organizeHierarchy(nodes);
+    const progress = new Map<string, TaskProgress>();
+
+    // Tasks in the subtree below a node, including the node itself
+    const countSubtree = (node: Node): TaskProgress => {
+        const below = (children[node.id] || []).reduce(
+            (sum, child) => {
+                const childCount = countSubtree(child);
+                return { done: sum.done + childCount.done, total: sum.total + childCount.total };
+            },
+            { done: 0, total: 0 }
+        );
+        if (below.total > 0) progress.set(node.id, below);
+        return node.task
+            ? { done: below.done + (node.task.done ? 1 : 0), total: below.total + 1 }
+            : below;
+    };
+
+    const ids = new Set(nodes.map(node => node.id));
+    nodes.filter(node => !node.parent || !ids.has(node.parent)).forEach(countSubtree);
+    return progress;
+};
+
+export const getProgressPercent = ({ done, total }: TaskProgress): number => {
+    return total > 0 ? Math.round((done / total) * 100) : 0;
+};
+
+// Today as YYYY-MM-DD in local time, the format due dates are stored in
+export const getToday = (): string => {
+    const now = new Date();
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+};
+
+export const isTaskOverdue = (task: NodeTask, today: string = getToday()): boolean => {
+    return !task.done && !!task.dueDate && task.dueDate < today;
+};
+
+// Short due date for the canvas, e.g. "Oct 20"
+export const formatDueDate = (dueDate: string): string => {
+    const date = new Date(`${dueDate}T00:00:00`);
+    if (isNaN(date.getTime())) return dueDate;
+    return date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+};
@@ -0,0 +1,101 @@
+import { Node, Viewport } from '../types';
+import { getNodeSize, getNodesBounds } from './mindMapUtils';
+
+export const MIN_SCALE = 0.1;
+export const MAX_SCALE = 4;
+export const ZOOM_STEP = 1.1;
+
+export const DEFAULT_VIEWPORT: Viewport = { x: 0, y: 0, scale: 1 };
+
+export const clampScale = (scale: number): number => {
+    return Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+};
+
+// Convert a point in screen (stage container) pixels to map coordinates
+export const screenToMap = (point: { x: number; y: number }, viewport: Viewport): { x: number; y: number } => {
+    return {
+        x: (point.x - viewport.x) / viewport.scale,
+        y: (point.y - viewport.y) / viewport.scale,
+    };
+};
+
+// Convert a point in map coordinates to screen (stage container) pixels
+export const mapToScreen = (point: { x: number; y: number }, viewport: Viewport): { x: number; y: number } => {
+    return {
+        x: point.x * viewport.scale + viewport.x,
+        y: point.y * viewport.scale + viewport.y,
+    };
+};
+
+// Change the zoom level while keeping the map point under `point` fixed on screen
+export const zoomAtPoint = (viewport: Viewport, point: { x: number; y: number }, newScale: number): Viewport => {
+    const scale = clampScale(newScale);
+    const mapPoint = screenToMap(point, viewport);
+
+    return {
+        x: point.x - mapPoint.x * scale,
+        y: point.y - mapPoint.y * scale,
+        scale,
+    };
+};
+
+// Viewport that centers the given nodes and scales them to fit the visible area
+export const fitNodesToViewport = (
+    nodes: Node[],
+    size: { width: number; height: number },
+    padding: number = 40,
+    maxScale: number = 1
+): Viewport => {
+    const bounds = getNodesBounds(nodes);
+    if (!bounds) return DEFAULT_VIEWPORT;
+
+    const availableWidth = Math.max(1, size.width - padding * 2);
+    const availableHeight = Math.max(1, size.height - padding * 2);
+    const scale = clampScale(Math.min(
+        availableWidth / bounds.width,
+        availableHeight / bounds.height,
+        maxScale
+    ));
+
+    return {
+        x: size.width / 2 - (bounds.x + bounds.width / 2) * scale,
+        y: size.height / 2 - (bounds.y + bounds.height / 2) * scale,
+        scale,
+    };
+};
+
+// Viewport panned just enough to bring the node fully into view; unchanged if it already is
+export const panNodeIntoView = (
+    node: Node,
+    viewport: Viewport,
+    size: { width: number; height: number },
+    margin: number = 40
+): Viewport => {
+    const { width, height } = getNodeSize(node);
+    const topLeft = mapToScreen(node, viewport);
+    const bottomRight = mapToScreen({ x: node.x + width, y: node.y + height }, viewport);
+
+    let dx = 0;
+    let dy = 0;
+    if (topLeft.x < margin) dx = margin - topLeft.x;
+    else if (bottomRight.x > size.width - margin) dx = size.width - margin - bottomRight.x;
+    if (topLeft.y < margin) dy = margin - topLeft.y;
+    else if (bottomRight.y > size.height - margin) dy = size.height - margin - bottomRight.y;
+
+    if (dx === 0 && dy === 0) return viewport;
+    return { ...viewport, x: viewport.x + dx, y: viewport.y + dy };
+};
+
+// Viewport at the same zoom with the node in the middle of the visible area
+export const centerNodeInView = (
+    node: Node,
+    viewport: Viewport,
+    size: { width: number; height: number }
+): Viewport => {
+    const { width, height } = getNodeSize(node);
+    return {
+        ...viewport,
+        x: size.width / 2 - (node.x + width / 2) * viewport.scale,
+        y: size.height / 2 - (node.y + height / 2) * viewport.scale,
+    };
+};